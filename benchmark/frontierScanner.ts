@@ -0,0 +1,137 @@
+import { LinkerPluginSettings } from 'main';
+import { TFile } from 'obsidian';
+import { MatchNode, PrefixTree } from '../linker/linkerCache';
+
+class FrontierNode {
+    children: Map<string, FrontierNode> = new Map();
+    files: Set<TFile> = new Set();
+    requiresCaseMatch: boolean = false;
+}
+
+class VisitedFrontierNode {
+    formattingDelta: number = 0;
+    pendingFormatting: number = 0;
+    constructor(
+        public node: FrontierNode,
+        public caseIsMatched: boolean = true,
+        public startedAtWordBeginning: boolean = false,
+        public startIndex: number = 0
+    ) { }
+}
+
+/**
+ * The search of the linker before the Aho-Corasick automaton, kept to compare both engines in the benchmark.
+ * Every char starts a new path in the tree and all started paths are continued with the next char.
+ */
+export class FrontierScanner {
+    root: FrontierNode = new FrontierNode();
+    currentNodes: VisitedFrontierNode[] = [];
+
+    constructor(public settings: LinkerPluginSettings, public wordBoundaryPattern: RegExp) { }
+
+    addName(name: string, file: TFile, matchCase: boolean) {
+        // Case insensitive names are added a second time in lower case
+        const names = matchCase ? [name] : [name, name.toLowerCase()];
+        for (const nameToAdd of names) {
+            let node = this.root;
+            for (const char of nameToAdd) {
+                let child = node.children.get(char);
+                if (!child) {
+                    child = new FrontierNode();
+                    node.children.set(char, child);
+                }
+                node = child;
+            }
+            node.files.add(file);
+            node.requiresCaseMatch = matchCase;
+        }
+    }
+
+    findMatchNodes(text: string): MatchNode[] {
+        const matchNodes: MatchNode[] = [];
+        const matchSubWords = this.settings.matchAnyPartsOfWords || this.settings.matchBeginningOfWords;
+
+        this.currentNodes = [new VisitedFrontierNode(this.root)];
+        for (const { char, index } of PrefixTree.getTextChars(text)) {
+            const isWordBoundary = PrefixTree.checkWordBoundary(char, this.wordBoundaryPattern);
+            if (matchSubWords || isWordBoundary) {
+                for (const node of this.getCurrentMatchNodes(index)) {
+                    if (!this.settings.matchAnyPartsOfWords) {
+                        if (
+                            this.settings.matchBeginningOfWords &&
+                            !node.startsAtWordBoundary &&
+                            this.settings.matchEndOfWords &&
+                            !isWordBoundary
+                        ) {
+                            continue;
+                        }
+                    }
+                    if (!node.balanceFormatting(text)) {
+                        continue;
+                    }
+                    node.isSubWord = !isWordBoundary;
+                    matchNodes.push(node);
+                }
+            }
+            this.pushChar(char, index);
+        }
+
+        return matchNodes;
+    }
+
+    private getCurrentMatchNodes(index: number): MatchNode[] {
+        const matchNodes: MatchNode[] = [];
+        for (const node of this.currentNodes) {
+            if (node.node.files.size === 0 || node.pendingFormatting > 0) {
+                continue;
+            }
+            if (node.node.requiresCaseMatch && !node.caseIsMatched) {
+                continue;
+            }
+            const matchNode = new MatchNode();
+            matchNode.start = node.startIndex;
+            matchNode.length = index - node.startIndex;
+            matchNode.formattingDelta = node.formattingDelta;
+            matchNode.files = new Set(node.node.files);
+            matchNode.requiresCaseMatch = node.node.requiresCaseMatch;
+            matchNode.startsAtWordBoundary = node.startedAtWordBeginning;
+            matchNodes.push(matchNode);
+        }
+        return matchNodes;
+    }
+
+    private pushChar(char: string, index: number) {
+        const newNodes: VisitedFrontierNode[] = [];
+
+        [char, char.toLowerCase()].forEach((c) => {
+            const isBoundary = PrefixTree.checkWordBoundary(c, this.wordBoundaryPattern);
+            if (isBoundary || this.settings.matchAnyPartsOfWords || this.settings.matchEndOfWords) {
+                newNodes.push(new VisitedFrontierNode(this.root, true, isBoundary));
+            }
+
+            for (const node of this.currentNodes) {
+                const child = node.node.children.get(c);
+                if (child && !newNodes.map((n) => n.node).includes(child)) {
+                    const startIndex = node.node === this.root ? index : node.startIndex;
+                    const newVisited = new VisitedFrontierNode(child, char == c, node.startedAtWordBeginning, startIndex);
+                    newVisited.formattingDelta = node.formattingDelta + node.pendingFormatting;
+                    newNodes.push(newVisited);
+                }
+            }
+        });
+
+        if (PrefixTree.isFormattingChar(char)) {
+            for (const node of this.currentNodes) {
+                if (node.node === this.root) {
+                    continue;
+                }
+                const skippingNode = new VisitedFrontierNode(node.node, node.caseIsMatched, node.startedAtWordBeginning, node.startIndex);
+                skippingNode.formattingDelta = node.formattingDelta;
+                skippingNode.pendingFormatting = node.pendingFormatting + 1;
+                newNodes.push(skippingNode);
+            }
+        }
+
+        this.currentNodes = newNodes;
+    }
+}
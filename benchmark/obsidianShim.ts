@@ -0,0 +1,47 @@
+// Replaces the obsidian module in the benchmark, which runs outside of Obsidian.
+// Only the parts used by the prefix tree are implemented.
+// The other parts imported by the plugin (e.g. for the default settings of main.ts) are empty declarations.
+
+export class TAbstractFile {
+    path: string = '';
+    name: string = '';
+}
+
+export class TFile extends TAbstractFile {
+    basename: string = '';
+    extension: string = 'md';
+    stat = { ctime: 0, mtime: 0, size: 0 };
+}
+
+export function getAllTags(cache: { frontmatter?: Record<string, any> } | null): string[] | null {
+    const tags = cache?.frontmatter?.tags;
+    if (!tags) {
+        return null;
+    }
+    return (Array.isArray(tags) ? tags : [tags]).map((tag: string) => '#' + tag);
+}
+
+export function parseFrontMatterAliases(frontmatter: Record<string, any> | null): string[] | null {
+    return frontmatter?.aliases ?? null;
+}
+
+export class TFolder extends TAbstractFile { }
+
+export function parseLinktext(linktext: string): { path: string; subpath: string } {
+    const index = linktext.indexOf('#');
+    return index < 0 ? { path: linktext, subpath: '' } : { path: linktext.slice(0, index), subpath: linktext.slice(index) };
+}
+
+export function normalizePath(path: string): string {
+    return path;
+}
+
+export class Plugin { }
+export class PluginSettingTab { }
+export class Setting { }
+export class Notice { }
+export class FileView { }
+export class MarkdownView { }
+export class MarkdownRenderChild { }
+export const Keymap = {};
+export const editorInfoField = {};
@@ -0,0 +1,31 @@
+import esbuild from 'esbuild';
+import { spawnSync } from 'child_process';
+import os from 'os';
+import path from 'path';
+import process from 'process';
+
+// Bundles the benchmark with a replacement of the obsidian module and runs it with node
+// Usage: yarn benchmark [number of notes] [number of documents]
+
+const outfile = path.join(os.tmpdir(), 'linker-benchmark.js');
+
+const obsidianShim = {
+	name: 'obsidian-shim',
+	setup(build) {
+		build.onResolve({ filter: /^obsidian$/ }, () => ({ path: path.resolve('benchmark/obsidianShim.ts') }));
+	},
+};
+
+await esbuild.build({
+	entryPoints: ['benchmark/scanBenchmark.ts'],
+	bundle: true,
+	platform: 'node',
+	format: 'cjs',
+	target: 'es2018',
+	logLevel: 'warning',
+	plugins: [obsidianShim],
+	outfile,
+});
+
+const result = spawnSync(process.execPath, ['--expose-gc', outfile, ...process.argv.slice(2)], { stdio: 'inherit' });
+process.exit(result.status ?? 1);
@@ -0,0 +1,218 @@
+import { DEFAULT_SETTINGS, LinkerPluginSettings } from 'main';
+import { App, TFile } from 'obsidian';
+import { MatchNode, PrefixTree } from '../linker/linkerCache';
+import { FrontierScanner } from './frontierScanner';
+
+// Compares the search of the Aho-Corasick automaton with the previous search on a generated vault
+
+const noteCount = parseInt(process.argv[2] ?? '20000');
+const documentCount = parseInt(process.argv[3] ?? '20');
+const wordsPerDocument = 2000;
+
+// Random numbers with a fixed seed, so that every run uses the same vault
+let seed = 42;
+function random() {
+    seed = (seed * 1664525 + 1013904223) % 4294967296;
+    return seed / 4294967296;
+}
+
+function pick<T>(values: T[]): T {
+    return values[Math.floor(random() * values.length)];
+}
+
+const consonants = 'bdfghklmnprstvz'.split('');
+const vowels = 'aeiou'.split('');
+
+function generateWord(syllables: number): string {
+    let word = '';
+    for (let i = 0; i < syllables; i++) {
+        word += pick(consonants) + pick(vowels) + (random() < 0.3 ? pick(consonants) : '');
+    }
+    return word;
+}
+
+// Like in real notes, most words of a text are frequent short words (e.g. "the", "of"), that are not the names of notes.
+// The names of the notes are made of the less frequent content words, the two vocabularies do not overlap, since their words have different lengths.
+const functionWords = Array.from(new Set(Array.from({ length: 300 }, () => generateWord(1))));
+const contentWords = Array.from(new Set(Array.from({ length: 30000 }, () => generateWord(2 + Math.floor(random() * 2)))));
+
+// Some words are much more frequent than others
+function pickFunctionWord(): string {
+    return functionWords[Math.floor(functionWords.length * random() ** 3)];
+}
+
+function pickContentWord(): string {
+    return contentWords[Math.floor(contentWords.length * random() ** 2)];
+}
+
+function capitalize(word: string): string {
+    return word.charAt(0).toUpperCase() + word.slice(1);
+}
+
+interface GeneratedNote {
+    file: TFile;
+    frontmatter: Record<string, string[]>;
+    names: string[];
+}
+
+// Every title is only used once, like the file names in a folder
+const usedTitles = new Set<string>();
+
+function generateNote(index: number): GeneratedNote {
+    let words: string[] = [];
+    let basename = '';
+    while (basename.length === 0 || usedTitles.has(basename)) {
+        words = Array.from({ length: 1 + Math.floor(random() * 4) }, () => capitalize(pickContentWord()));
+        basename = words.join(' ');
+    }
+    usedTitles.add(basename);
+
+    const file = new TFile();
+    file.path = `Notes/${basename} ${index}.md`;
+    file.name = `${basename} ${index}.md`;
+    file.basename = basename;
+
+    // Some notes have aliases, acronyms are matched case sensitive
+    const aliases: string[] = [];
+    if (random() < 0.2) {
+        aliases.push(capitalize(pickContentWord()) + ' ' + capitalize(pickContentWord()));
+    }
+    if (words.length > 1 && random() < 0.1) {
+        aliases.push(words.map((word) => word.charAt(0)).join(''));
+    }
+
+    return { file, frontmatter: { aliases }, names: [basename, ...aliases] };
+}
+
+function generateDocument(index: number, notes: GeneratedNote[]): string {
+    const lines = [`# Document ${index}`];
+    let line: string[] = [];
+    for (let i = 0; i < wordsPerDocument; i++) {
+        const value = random();
+        if (value < 0.05) {
+            const name = pick(pick(notes).names);
+            line.push(random() < 0.2 ? `**${name}**` : random() < 0.5 ? name.toLowerCase() : name);
+        } else {
+            line.push(value < 0.3 ? pickContentWord() : pickFunctionWord());
+        }
+
+        if (line.length >= 15) {
+            lines.push(line.join(' ') + '.');
+            line = [];
+        }
+    }
+    lines.push(line.join(' '));
+    return lines.join('\n');
+}
+
+// The default settings, with the settings of the search that differ from them
+const settings: LinkerPluginSettings = {
+    ...DEFAULT_SETTINGS,
+    excludeLinksToOwnNote: false,
+};
+
+function getMatchKeys(matchNodes: MatchNode[]): Set<string> {
+    // Matches of the same text are merged, the previous search returned one match for each case variant
+    const filesByRange = new Map<string, Set<string>>();
+    for (const matchNode of matchNodes) {
+        const range = `${matchNode.start}:${matchNode.end}`;
+        const files = filesByRange.get(range) ?? new Set();
+        matchNode.files.forEach((file) => files.add(file.path));
+        filesByRange.set(range, files);
+    }
+    return new Set(Array.from(filesByRange).map(([range, files]) => `${range}:${Array.from(files).sort().join('|')}`));
+}
+
+// Available if node runs with --expose-gc, so that the garbage of one engine is not collected while measuring the other one
+const collectGarbage: (() => void) | undefined = (globalThis as { gc?: () => void }).gc;
+
+function measure<T>(callback: () => T): [T, number] {
+    collectGarbage?.();
+    const start = performance.now();
+    const result = callback();
+    return [result, performance.now() - start];
+}
+
+const notes = Array.from({ length: noteCount }, (_, i) => generateNote(i));
+const documents = Array.from({ length: documentCount }, (_, i) => generateDocument(i, notes));
+const frontmatters = new Map(notes.map((note) => [note.file, note.frontmatter]));
+
+const app = {
+    vault: {
+        getMarkdownFiles: () => notes.map((note) => note.file),
+        getAbstractFileByPath: (path: string) => notes.find((note) => note.file.path === path)?.file ?? null,
+        getFileByPath: (path: string) => notes.find((note) => note.file.path === path)?.file ?? null,
+    },
+    metadataCache: {
+        getFileCache: (file: TFile) => ({ frontmatter: frontmatters.get(file) }),
+    },
+    workspace: {
+        getActiveFile: () => null,
+    },
+} as unknown as App;
+
+console.log(`Generated ${noteCount} notes and ${documentCount} documents with ${wordsPerDocument} words each`);
+
+const [tree, treeTime] = measure(() => new PrefixTree(app, settings));
+const [frontierScanner, frontierScannerTime] = measure(() => {
+    const scanner = new FrontierScanner(settings, tree.wordBoundaryPattern);
+    for (const note of notes) {
+        for (const name of note.names) {
+            scanner.addName(name, note.file, PrefixTree.isUpperCaseString(name, settings.capitalLetterProportionForAutomaticMatchCase));
+        }
+    }
+    return scanner;
+});
+
+// The automaton is built with the first search
+const [, automatonTime] = measure(() => tree.findMatchNodes('', null));
+
+// The frontier scanner only adds the names, the tree also reads the notes (e.g. their aliases and fingerprints)
+console.log(
+    `Indexing:  frontier ${frontierScannerTime.toFixed(0)} ms, automaton ${(treeTime + automatonTime).toFixed(0)} ms ` +
+        `(notes ${treeTime.toFixed(0)} ms, links ${automatonTime.toFixed(0)} ms)`
+);
+
+// Every scenario is searched several times, the fastest round of each engine counts
+const rounds = 3;
+
+function compareSearch(scenario: string) {
+    let frontierTime = Infinity;
+    let ahoCorasickTime = Infinity;
+    let matchCount = 0;
+    let differentDocuments = 0;
+
+    for (let round = 0; round < rounds; round++) {
+        let frontierRoundTime = 0;
+        let ahoCorasickRoundTime = 0;
+        matchCount = 0;
+        differentDocuments = 0;
+
+        for (const document of documents) {
+            const [frontierMatches, frontierDocumentTime] = measure(() => frontierScanner.findMatchNodes(document));
+            const [ahoCorasickMatches, ahoCorasickDocumentTime] = measure(() => tree.findMatchNodes(document, null));
+            frontierRoundTime += frontierDocumentTime;
+            ahoCorasickRoundTime += ahoCorasickDocumentTime;
+
+            const frontierKeys = getMatchKeys(frontierMatches);
+            const ahoCorasickKeys = getMatchKeys(ahoCorasickMatches);
+            matchCount += ahoCorasickKeys.size;
+            if (frontierKeys.size !== ahoCorasickKeys.size || Array.from(frontierKeys).some((key) => !ahoCorasickKeys.has(key))) {
+                differentDocuments++;
+            }
+        }
+
+        frontierTime = Math.min(frontierTime, frontierRoundTime);
+        ahoCorasickTime = Math.min(ahoCorasickTime, ahoCorasickRoundTime);
+    }
+
+    console.log(`\n${scenario}`);
+    console.log(`  Searching: frontier ${frontierTime.toFixed(0)} ms, automaton ${ahoCorasickTime.toFixed(0)} ms`);
+    console.log(`  Speedup:   ${(frontierTime / ahoCorasickTime).toFixed(1)}x, ${matchCount} matches`);
+    console.log(`  Documents with different matches: ${differentDocuments}`);
+}
+
+compareSearch('Whole words, beginning and end of words (default)');
+
+settings.matchAnyPartsOfWords = true;
+compareSearch('Any parts of words');
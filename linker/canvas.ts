@@ -0,0 +1,153 @@
+import { App, FileView, TFile } from 'obsidian';
+
+import { LinkerPluginSettings } from '../main';
+import { DocumentLinkState } from './documentLinks';
+import { LinkerCache } from './linkerCache';
+import { getEffectiveSettings } from './profiles';
+import { SourceNoteControls } from './sourceNote';
+import { VirtualMatch } from './virtualLinkDom';
+
+// Parts of the canvas view of Obsidian, that are not part of the API
+interface CanvasNodeInternal {
+    id: string;
+    nodeEl: HTMLElement;
+}
+
+interface CanvasViewInternal extends FileView {
+    canvas?: { nodes: Map<string, CanvasNodeInternal> };
+}
+
+/**
+ * Text card of a canvas, that contains an element.
+ */
+export interface CanvasCard {
+    file: TFile;
+    nodeId: string;
+    nodeEl: HTMLElement;
+}
+
+/**
+ * Returns the canvas file of an element, e.g. of a virtual link in a text card.
+ */
+export function getCanvasFileOfElement(app: App, element: HTMLElement): TFile | null {
+    for (const leaf of app.workspace.getLeavesOfType('canvas')) {
+        const view = leaf.view;
+        if (view instanceof FileView && view.file && view.containerEl.contains(element)) {
+            return view.file;
+        }
+    }
+    return null;
+}
+
+/**
+ * Returns the text card of a canvas, that contains an element.
+ */
+export function getCanvasCardOfElement(app: App, element: HTMLElement): CanvasCard | null {
+    for (const leaf of app.workspace.getLeavesOfType('canvas')) {
+        const view = leaf.view as CanvasViewInternal;
+        if (!view.file || !view.containerEl.contains(element)) {
+            continue;
+        }
+        for (const node of view.canvas?.nodes.values() ?? []) {
+            if (node.nodeEl.contains(element)) {
+                return { file: view.file, nodeId: node.id, nodeEl: node.nodeEl };
+            }
+        }
+    }
+    return null;
+}
+
+/**
+ * Returns how many virtual links to the target are rendered in the card before the virtual link.
+ */
+function getLinkIndexInCard(card: CanvasCard, linkElement: HTMLElement, target: string): number {
+    const linkRoot = linkElement.closest('.virtual-link') ?? linkElement;
+    const linksToTarget = Array.from(card.nodeEl.querySelectorAll('.virtual-link')).filter((link) =>
+        Array.from(link.querySelectorAll('.virtual-link-a')).some((anchor) => anchor.getAttribute('href') === target)
+    );
+    return linksToTarget.indexOf(linkRoot);
+}
+
+/**
+ * Returns the virtual links to the target in the Markdown of a card, like they are rendered in reading view.
+ * The sections of the card are separated by empty lines, with "only link once" each section links a target once.
+ */
+function getLinksInCardText(
+    app: App,
+    canvasFile: TFile,
+    text: string,
+    target: string,
+    settings: LinkerPluginSettings,
+    sourceControls: SourceNoteControls
+): VirtualMatch[] {
+    const matches: VirtualMatch[] = [];
+    let id = 0;
+    for (const node of LinkerCache.getInstance(app, settings).cache.findMatchNodes(text, canvasFile, settings)) {
+        const name = text.slice(node.start, node.end);
+        const files = sourceControls.filterFiles(name, Array.from(node.files));
+        if (files.length > 0) {
+            matches.push(
+                new VirtualMatch(id++, name, app, node.start, node.end, files, node.isAlias, node.isSubWord, settings, node.subpaths)
+            );
+        }
+    }
+
+    // The matches in code, real links and the like are not rendered as virtual links
+    const excludedRanges = DocumentLinkState.getExcludedRanges(text, settings);
+    const sortedMatches = VirtualMatch.sort(matches).filter(
+        (match) => !excludedRanges.some(({ from, to }) => match.from < to && match.to > from)
+    );
+
+    const links: VirtualMatch[] = [];
+    const sectionPattern = /(?:^|\n[ \t]*\n)/g;
+    const sectionStarts = Array.from(text.matchAll(sectionPattern), (match) => match.index! + match[0].length);
+    sectionStarts.forEach((sectionStart, index) => {
+        const sectionEnd = sectionStarts[index + 1] ?? text.length;
+        const sectionMatches = sortedMatches.filter((match) => match.from >= sectionStart && match.from < sectionEnd);
+        links.push(...VirtualMatch.filterOverlapping(sectionMatches, settings.onlyLinkOnce));
+    });
+    return links.filter((match) => match.getLinkTargets().includes(target));
+}
+
+/**
+ * Replaces the text of a virtual link in a text card by a real link, by changing the card in the canvas file.
+ * The positions of a virtual link in a rendered card are not the positions in the Markdown of the card,
+ * so the virtual links to the same target are found in the Markdown, and the one with the same index is replaced.
+ * Returns false, if the virtual link is not found.
+ */
+export async function replaceInCanvasCard(
+    app: App,
+    card: CanvasCard,
+    linkElement: HTMLElement,
+    target: string,
+    replacement: string,
+    pluginSettings: LinkerPluginSettings
+): Promise<boolean> {
+    const linkIndex = getLinkIndexInCard(card, linkElement, target);
+    if (linkIndex < 0) {
+        return false;
+    }
+    const settings = getEffectiveSettings(app, pluginSettings, card.file);
+    const sourceControls = new SourceNoteControls(app, pluginSettings, card.file);
+
+    let replaced = false;
+    await app.vault.process(card.file, (data) => {
+        const canvas = JSON.parse(data);
+        const node = canvas.nodes?.find((node: { id: string }) => node.id === card.nodeId);
+        if (!node || typeof node.text !== 'string') {
+            return data;
+        }
+
+        // The card could have been changed since it was rendered
+        const links = getLinksInCardText(app, card.file, node.text, target, settings, sourceControls);
+        if (linkIndex >= links.length) {
+            return data;
+        }
+
+        const { from, to } = links[linkIndex];
+        node.text = node.text.slice(0, from) + replacement + node.text.slice(to);
+        replaced = true;
+        return JSON.stringify(canvas, null, '\t');
+    });
+    return replaced;
+}
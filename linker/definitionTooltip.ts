@@ -0,0 +1,124 @@
+import { App, Keymap, parseFrontMatterAliases, TFile } from 'obsidian';
+
+import { LinkerPluginSettings } from '../main';
+import { LinkerCache } from './linkerCache';
+
+/**
+ * Small card with the title, the aliases and the definition of a note, shown when a virtual link to the note is hovered.
+ * The full page preview is shown instead, if the modifier key is pressed.
+ */
+export class DefinitionTooltip {
+    // Only one tooltip is shown at a time
+    private static current: DefinitionTooltip | null = null;
+    private static delay = 300;
+    private static maxDefinitionLength = 300;
+
+    private tooltipEl: HTMLElement | null = null;
+    private timeout: number | null = null;
+
+    constructor(public app: App, public settings: LinkerPluginSettings, public file: TFile, public targetEl: HTMLElement) { }
+
+    /**
+     * Shows the tooltip of the file when the link element is hovered.
+     */
+    static register(app: App, settings: LinkerPluginSettings, file: TFile, linkEl: HTMLElement) {
+        linkEl.addEventListener('mouseenter', (event) => {
+            if (Keymap.isModEvent(event)) {
+                return;
+            }
+            DefinitionTooltip.current?.hide();
+            DefinitionTooltip.current = new DefinitionTooltip(app, settings, file, linkEl);
+            DefinitionTooltip.current.showDelayed();
+        });
+        linkEl.addEventListener('mouseleave', () => {
+            if (DefinitionTooltip.current?.targetEl === linkEl) {
+                DefinitionTooltip.current.hide();
+                DefinitionTooltip.current = null;
+            }
+        });
+    }
+
+    /**
+     * Removes the tooltip, if its link is inside of an element that is removed (e.g. a rebuilt decoration or a rendered section).
+     */
+    static hideInside(element: HTMLElement) {
+        if (DefinitionTooltip.current && element.contains(DefinitionTooltip.current.targetEl)) {
+            DefinitionTooltip.current.hide();
+            DefinitionTooltip.current = null;
+        }
+    }
+
+    private showDelayed() {
+        this.timeout = this.targetEl.win.setTimeout(async () => {
+            this.timeout = null;
+            let definition: string;
+            try {
+                definition = await LinkerCache.getInstance(this.app, this.settings).cache.getDefinition(this.file);
+            } catch (e) {
+                // The note could have been deleted or could not be read
+                console.error('[VL DT] Error reading the definition', this.file.path, e);
+                if (DefinitionTooltip.current === this) {
+                    this.hide();
+                    DefinitionTooltip.current = null;
+                }
+                return;
+            }
+
+            // The link could have been left or removed while the note was read
+            if (DefinitionTooltip.current === this && this.targetEl.isConnected) {
+                this.show(definition);
+            }
+        }, DefinitionTooltip.delay);
+    }
+
+    private show(definition: string) {
+        const metadata = this.app.metadataCache.getFileCache(this.file);
+        const title = LinkerCache.getInstance(this.app, this.settings).cache.getTitle(this.file, metadata) ?? this.file.basename;
+        const aliases = (parseFrontMatterAliases(metadata?.frontmatter ?? null) ?? []).filter((alias) => alias !== title);
+
+        // The tooltip is shown in the window of the link, e.g. in a pop-out window
+        const doc = this.targetEl.doc;
+        const win = this.targetEl.win;
+        const tooltipEl = doc.createElement('div');
+        tooltipEl.classList.add('linker-definition-tooltip');
+
+        const titleEl = doc.createElement('div');
+        titleEl.classList.add('linker-definition-title');
+        titleEl.textContent = title;
+        tooltipEl.appendChild(titleEl);
+
+        if (aliases.length > 0) {
+            const aliasesEl = doc.createElement('div');
+            aliasesEl.classList.add('linker-definition-aliases');
+            aliasesEl.textContent = aliases.join(', ');
+            tooltipEl.appendChild(aliasesEl);
+        }
+
+        if (definition.length > 0) {
+            const definitionEl = doc.createElement('div');
+            definitionEl.classList.add('linker-definition-text');
+            definitionEl.textContent =
+                definition.length > DefinitionTooltip.maxDefinitionLength
+                    ? `${definition.slice(0, DefinitionTooltip.maxDefinitionLength).trimEnd()}…`
+                    : definition;
+            tooltipEl.appendChild(definitionEl);
+        }
+
+        // The tooltip is shown below the link, or above it if there is not enough space
+        doc.body.appendChild(tooltipEl);
+        const rect = this.targetEl.getBoundingClientRect();
+        const top = rect.bottom + tooltipEl.offsetHeight + 4 > win.innerHeight ? rect.top - tooltipEl.offsetHeight - 4 : rect.bottom + 4;
+        tooltipEl.style.top = `${Math.max(top, 0)}px`;
+        tooltipEl.style.left = `${Math.max(Math.min(rect.left, win.innerWidth - tooltipEl.offsetWidth - 4), 0)}px`;
+        this.tooltipEl = tooltipEl;
+    }
+
+    private hide() {
+        if (this.timeout !== null) {
+            this.targetEl.win.clearTimeout(this.timeout);
+            this.timeout = null;
+        }
+        this.tooltipEl?.remove();
+        this.tooltipEl = null;
+    }
+}
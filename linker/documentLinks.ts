@@ -0,0 +1,159 @@
+import { App, MarkdownSectionInformation, parseLinktext, TFile } from 'obsidian';
+
+import { LinkerPluginSettings } from '../main';
+import { VirtualMatch } from './virtualLinkDom';
+
+/**
+ * Linking state of a whole note in reading view.
+ * Obsidian renders the sections of a note separately and in any order, so the state is built from the source text of the note
+ * and its links in the metadata cache, instead of from the sections that have already been rendered.
+ */
+export class DocumentLinkState {
+    // Targets of the real links in the note, the paths of the files with their sections
+    explicitlyLinkedTargets: Set<string> = new Set();
+    // Line of the first virtual link to each target in the source text
+    mapTargetToFirstLine: Map<string, number> = new Map();
+
+    // States of the recently rendered notes, by their path
+    private static states: Map<string, DocumentLinkState> = new Map();
+    private static maxStates = 20;
+
+    private constructor(public text: string | null, public key: string) { }
+
+    /**
+     * Returns the state of the note, it is only built again if the note, the index or the settings have changed.
+     * Without the source text (e.g. for some embeds), only the real links of the note are known.
+     */
+    static get(
+        app: App,
+        sourcePath: string,
+        sectionInfo: MarkdownSectionInformation | null,
+        key: string,
+        settings: LinkerPluginSettings,
+        findMatches: (text: string) => VirtualMatch[]
+    ): DocumentLinkState {
+        const text = sectionInfo?.text ?? null;
+        const previousState = DocumentLinkState.states.get(sourcePath);
+        if (previousState && previousState.text === text && previousState.key === key) {
+            return previousState;
+        }
+
+        const state = new DocumentLinkState(text, key);
+        state.addExplicitLinks(app, sourcePath);
+        if (text !== null && settings.onlyLinkOnce) {
+            state.addFirstLinks(text, settings, findMatches);
+        }
+
+        DocumentLinkState.states.delete(sourcePath);
+        DocumentLinkState.states.set(sourcePath, state);
+        if (DocumentLinkState.states.size > DocumentLinkState.maxStates) {
+            DocumentLinkState.states.delete(DocumentLinkState.states.keys().next().value);
+        }
+        return state;
+    }
+
+    private addExplicitLinks(app: App, sourcePath: string) {
+        const file = app.vault.getAbstractFileByPath(sourcePath);
+        const metadata = file instanceof TFile ? app.metadataCache.getFileCache(file) : null;
+        for (const link of [...(metadata?.links ?? []), ...(metadata?.embeds ?? [])]) {
+            const { path, subpath } = parseLinktext(link.link);
+            const linkedFile = app.metadataCache.getFirstLinkpathDest(path, sourcePath);
+            if (linkedFile) {
+                this.explicitlyLinkedTargets.add(linkedFile.path + subpath);
+            }
+        }
+    }
+
+    /**
+     * Finds the virtual links of the whole source text like the live editor, and stores the line of the first link to each target.
+     */
+    private addFirstLinks(text: string, settings: LinkerPluginSettings, findMatches: (text: string) => VirtualMatch[]) {
+        const excludedRanges = DocumentLinkState.getExcludedRanges(text, settings);
+        let matches = VirtualMatch.sort(findMatches(text)).filter(
+            (match) => !excludedRanges.some(({ from, to }) => match.from < to && match.to > from)
+        );
+        if (settings.excludeLinksToRealLinkedFiles) {
+            matches = VirtualMatch.filterAlreadyLinked(matches, this.explicitlyLinkedTargets);
+        }
+        matches = VirtualMatch.filterOverlapping(matches, true);
+
+        const lineStarts = [0];
+        for (let i = text.indexOf('\n'); i >= 0; i = text.indexOf('\n', i + 1)) {
+            lineStarts.push(i + 1);
+        }
+        const getLine = (offset: number) => {
+            let low = 0;
+            let high = lineStarts.length - 1;
+            while (low < high) {
+                const middle = Math.ceil((low + high) / 2);
+                if (lineStarts[middle] <= offset) {
+                    low = middle;
+                } else {
+                    high = middle - 1;
+                }
+            }
+            return low;
+        };
+
+        for (const match of matches) {
+            for (const target of match.getLinkTargets()) {
+                if (!this.mapTargetToFirstLine.has(target)) {
+                    this.mapTargetToFirstLine.set(target, getLine(match.from));
+                }
+            }
+        }
+    }
+
+    /**
+     * Returns the ranges of the source text that are not linked in reading view, e.g. the frontmatter, code, math, comments and real links.
+     */
+    static getExcludedRanges(text: string, settings: LinkerPluginSettings): { from: number; to: number }[] {
+        const ranges: { from: number; to: number }[] = [];
+
+        // The frontmatter is only excluded at the start of the note
+        const frontmatter = /^---\r?\n[\s\S]*?\r?\n---[ \t]*(?:\r?\n|$)/.exec(text);
+        if (frontmatter) {
+            ranges.push({ from: 0, to: frontmatter[0].length });
+        }
+
+        const patterns = [
+            /^[ \t]*(`{3,}|~{3,})[^\n]*\n[\s\S]*?(?:^[ \t]*\1[ \t]*$|(?![\s\S]))/gm,
+            /`[^`\n]+`/g,
+            // Comments and math, that can span several lines
+            /%%[\s\S]*?(?:%%|(?![\s\S]))/g,
+            /\$\$[\s\S]*?(?:\$\$|(?![\s\S]))/g,
+            /(?<![\\$])\$(?=[^\s$])[^$\n]*?[^\s\\]\$/g,
+            // HTML blocks end with an empty line
+            /^[ \t]*<\/?[a-zA-Z][^\n]*(?:\n(?![ \t]*$)[^\n]*)*/gm,
+            /!?\[\[[^\]\n]*\]\]/g,
+            /!?\[[^\]\n]*\]\([^)\n]*\)/g,
+            /\bhttps?:\/\/\S+/g,
+            // Tags can also follow punctuation, e.g. "(#tag)"
+            /(?<=^|[\s\p{P}])#[\p{L}\p{N}_\-/]+/gmu,
+        ];
+        if (!settings.includeHeaders) {
+            patterns.push(/^#{1,6}[ \t].*$/gm);
+        }
+        for (const pattern of patterns) {
+            for (const match of text.matchAll(pattern)) {
+                ranges.push({ from: match.index!, to: match.index! + match[0].length });
+            }
+        }
+        return ranges;
+    }
+
+    /**
+     * Removes the matches of a rendered section, whose targets are linked for the first time in another section of the note.
+     * Targets that are not found in the source text are kept, e.g. if their name is only complete in the rendered text.
+     */
+    filterFirstLinks(matches: VirtualMatch[], sectionInfo: MarkdownSectionInformation | null): VirtualMatch[] {
+        if (!sectionInfo || this.text !== sectionInfo.text) {
+            return matches;
+        }
+        const isInSection = (target: string) => {
+            const line = this.mapTargetToFirstLine.get(target);
+            return line === undefined || (line >= sectionInfo.lineStart && line <= sectionInfo.lineEnd);
+        };
+        return matches.filter((match) => match.getLinkTargets().some(isInSection));
+    }
+}
@@ -0,0 +1,124 @@
+import { DataAdapter } from 'obsidian';
+
+import { LinkerPluginSettings } from 'main';
+
+// Stored indexes of other versions are ignored, the version has to be increased if the format or the indexed names change
+export const STORED_INDEX_VERSION = 3;
+
+// Names of a file are its title, its aliases, the values of its name properties (e.g. "property:synonyms") and the acronyms generated from them
+export type NameKind = 'title' | 'alias' | 'acronym' | `property:${string}`;
+
+// A name of a file in one of the trees of the index
+// The subpath is only stored for headings and blocks, e.g. "#Gradient Descent"
+export type StoredName = [name: string, matchCase: boolean, kind: NameKind, tree: string, subpath?: string];
+
+export interface StoredFile {
+    mtime: number;
+    fingerprint: string;
+    names: StoredName[];
+    patterns: string[];
+}
+
+export interface StoredIndex {
+    version: number;
+    settingsHash: string;
+    files: Record<string, StoredFile>;
+}
+
+// Settings that change the entries of the index, all files have to be indexed again if one of them changes
+const indexSettings: (keyof LinkerPluginSettings)[] = [
+    'includeAllFiles',
+    'linkerDirectories',
+    'excludedDirectories',
+    'tagToIncludeFile',
+    'tagToExcludeFile',
+    'matchCaseSensitive',
+    'capitalLetterProportionForAutomaticMatchCase',
+    'tagToIgnoreCase',
+    'tagToMatchCase',
+    'propertyNameToMatchCase',
+    'propertyNameToIgnoreCase',
+    'propertyNameToExcludeTexts',
+    'includeAliases',
+    'wordBoundaryRegex',
+    'stemmingLanguages',
+    'propertyNameToStemmingLanguage',
+    'ignoreDiacritics',
+    'propertyNameToMatchDiacritics',
+    'propertyNameToPatterns',
+    'normalizeSeparators',
+    'includeHeadingTargets',
+    'headingTargetLevels',
+    'includeBlockTargets',
+    'sectionTargetDirectories',
+    'generateAcronyms',
+    'propertyNameToGenerateAcronyms',
+    'excludedTexts',
+    'minimumNameLength',
+    'rules',
+    'nameProperties',
+    'propertyNameToTitle',
+    'fallbackToFileNameAsTitle',
+];
+
+// Settings that change which matches of the index are linked in a note, but not the index itself
+const linkSettings: (keyof LinkerPluginSettings)[] = [
+    'onlyLinkOnce',
+    'excludeLinksToRealLinkedFiles',
+    'excludeLinksToOwnNote',
+    'includeHeaders',
+    'matchCaseSensitive',
+    'matchAnyPartsOfWords',
+    'matchBeginningOfWords',
+    'matchEndOfWords',
+];
+
+/**
+ * Returns a hash of the settings that change the entries of the index (FNV-1a).
+ */
+export function getIndexSettingsHash(settings: LinkerPluginSettings): string {
+    // The suffixes of the name properties only change the links, not the index
+    const values = JSON.stringify(
+        indexSettings.map((key) => (key === 'nameProperties' ? settings.nameProperties.map(({ name, caseMode }) => [name, caseMode]) : settings[key]))
+    );
+    return hashString(values);
+}
+
+/**
+ * Returns a hash of the settings that change the links of a note, together with the settings of the index.
+ */
+export function getLinkSettingsHash(settings: LinkerPluginSettings): string {
+    return `${getIndexSettingsHash(settings)}:${hashString(JSON.stringify(linkSettings.map((key) => settings[key])))}`;
+}
+
+function hashString(values: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < values.length; i++) {
+        hash ^= values.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16);
+}
+
+/**
+ * Reads the index of the last session. Returns null, if there is no valid index.
+ */
+export async function loadStoredIndex(adapter: DataAdapter, path: string): Promise<StoredIndex | null> {
+    try {
+        if (!(await adapter.exists(path))) {
+            return null;
+        }
+        const index = JSON.parse(await adapter.read(path));
+        return index?.version === STORED_INDEX_VERSION && index.files ? index : null;
+    } catch (e) {
+        console.error('[VL IS] Error loading the index', e);
+        return null;
+    }
+}
+
+/**
+ * Writes the index, errors are thrown to the caller.
+ */
+export async function saveStoredIndex(adapter: DataAdapter, path: string, index: StoredIndex) {
+    await adapter.write(path, JSON.stringify(index));
+}
@@ -1,10 +1,16 @@
-import { App, getAllTags, parseFrontMatterAliases, TFile, Vault } from 'obsidian';
+import { App, CachedMetadata, getAllTags, parseFrontMatterAliases, TAbstractFile, TFile, Vault } from 'obsidian';
 
 import { LinkerPluginSettings } from 'main';
+import { getIndexSettingsHash, loadStoredIndex, NameKind, saveStoredIndex, STORED_INDEX_VERSION, StoredFile, StoredIndex } from './indexStorage';
 import { LinkerMetaInfoFetcher } from './linkerInfo';
+import { CompiledRule } from './rules';
+import { getStemmer, Stemmer } from './stemmers';
 
 export class ExternalUpdateManager {
     registeredCallbacks: Set<Function> = new Set();
+    // Callbacks of the editors and reading views, they are called after the settings or the index have changed
+    registeredViewCallbacks: Set<Function> = new Set();
+    private refreshTimeout: ReturnType<typeof setTimeout> | null = null;
 
     constructor() { }
 
@@ -12,34 +18,98 @@ export class ExternalUpdateManager {
         this.registeredCallbacks.add(callback);
     }
 
+    registerViewCallback(callback: Function) {
+        this.registeredViewCallbacks.add(callback);
+    }
+
+    unregisterViewCallback(callback: Function) {
+        this.registeredViewCallbacks.delete(callback);
+    }
+
     update() {
         // Timeout to make sure the cache is updated
         setTimeout(() => {
             for (const callback of this.registeredCallbacks) {
                 callback();
             }
+            this.refreshViews();
+        }, 50);
+    }
+
+    /**
+     * Refreshes the links of all views, e.g. after a note has been added to the index.
+     * Several calls in a short time only refresh the views once.
+     */
+    refreshViews() {
+        if (this.refreshTimeout !== null) {
+            return;
+        }
+        this.refreshTimeout = setTimeout(() => {
+            this.refreshTimeout = null;
+            for (const callback of this.registeredViewCallbacks) {
+                callback();
+            }
         }, 50);
     }
 }
 
+/**
+ * A frontmatter property, whose values are matched as names of the note (e.g. "synonyms").
+ */
+export interface NameProperty {
+    name: string;
+    // "default" determines the case sensitivity like for the aliases
+    caseMode: 'default' | 'match' | 'ignore';
+    // Suffix of the links, the suffix for aliases is used if it is empty
+    suffix: string;
+}
+
 export class PrefixNode {
     parent: PrefixNode | undefined;
+    // The children are stored by their lower case chars, the case of case sensitive names is checked for each match
     children: Map<string, PrefixNode> = new Map();
+    // Files with a case insensitive name
     files: Set<TFile> = new Set();
+    // The following entries are only created for the nodes at the end of a name, most nodes are only part of longer names
+    // Files with a case insensitive name, mapped by the spelling of the name, if the matching is case sensitive for a note (see the profiles)
+    caseInsensitiveSpellings?: Map<string, Set<TFile>>;
+    // Files with a case sensitive name, mapped by the exact spelling of the name
+    caseSensitiveFiles?: Map<string, Set<TFile>>;
+    // Files for which the name of this node is an alias and not the file name
+    aliasFiles?: Set<TFile>;
+    // Files for which the name of this node is a generated acronym, they are also alias files
+    acronymFiles?: Set<TFile>;
+    // Name properties of the files, for which the name of this node is a value of the property
+    propertyFiles?: Map<TFile, string>;
+    // Sections of the files, if the name of this node is a heading or block of the file (e.g. "#Gradient Descent")
+    subpaths?: Map<TFile, string>;
     charValue: string = '';
     value: string = '';
-    requiresCaseMatch: boolean = false;
-}
+    // Number of chars from the root to this node
+    depth: number = 0;
 
-export class VisitedPrefixNode {
-    node: PrefixNode;
-    caseIsMatched: boolean;
-    startedAtWordBeginning: boolean;
-    formattingDelta: number = 0;
-    constructor(node: PrefixNode, caseIsMatched: boolean = true, startedAtWordBeginning: boolean = false) {
-        this.node = node;
-        this.caseIsMatched = caseIsMatched;
-        this.startedAtWordBeginning = startedAtWordBeginning;
+    // Aho-Corasick links, see PrefixTree.buildAutomaton
+    // Node of the longest proper suffix of the value, that is also in the tree
+    failure: PrefixNode | undefined;
+    // Next node on the failure path, that has files
+    output: PrefixNode | undefined;
+
+    hasFiles(): boolean {
+        return this.files.size > 0 || (this.caseSensitiveFiles?.size ?? 0) > 0;
+    }
+
+    /**
+     * Returns the files of the case insensitive names and of the case sensitive names with the given spelling.
+     * If all names should match case sensitive, the case insensitive names have to match the spelling as well.
+     */
+    getFiles(spelling: string, matchCase: boolean = false): Set<TFile> {
+        const files = new Set(matchCase ? this.caseInsensitiveSpellings?.get(spelling) : this.files);
+        this.caseSensitiveFiles?.get(spelling)?.forEach((file) => files.add(file));
+        return files;
+    }
+
+    hasFile(file: TFile): boolean {
+        return this.files.has(file) || Array.from(this.caseSensitiveFiles?.values() ?? []).some((files) => files.has(file));
     }
 }
 
@@ -47,115 +117,244 @@ export class MatchNode {
     start: number = 0;
     length: number = 0;
     files: Set<TFile> = new Set();
+    // Sections of the files, if the match is a heading or block of a file
+    subpaths: Map<TFile, string> = new Map();
     value: string = '';
     isAlias: boolean = false;
-    caseIsMatched: boolean = true;
+    isAcronym: boolean = false;
+    // Name property of the files, if the match is a value of the same property for all files
+    propertyName?: string;
     startsAtWordBoundary: boolean = false;
     requiresCaseMatch: boolean = false;
+    formattingDelta: number = 0;
+    isSubWord: boolean = false;
 
     get end(): number {
         return this.start + this.length;
     }
+
+    /**
+     * If formatting chars were skipped inside of the match (e.g. "**Machine** Learning"),
+     * the match is extended to the surrounding formatting chars, so that the markup is balanced.
+     * Returns false, if the markup can not be balanced.
+     */
+    balanceFormatting(text: string): boolean {
+        if (this.formattingDelta === 0) {
+            return true;
+        }
+
+        const openers: string[] = [];
+        const closers: string[] = [];
+        const inner = text.slice(this.start, this.end);
+        const runPattern = /[*_=~]+/g;
+
+        let run: RegExpExecArray | null;
+        while ((run = runPattern.exec(inner)) !== null) {
+            const before = inner[run.index - 1] ?? '';
+            const after = inner[run.index + run[0].length] ?? '';
+            const isCloser = before.length > 0 && !/\s/.test(before) && !/[\p{L}\p{N}]/u.test(after);
+
+            if (isCloser && openers.length > 0 && openers[openers.length - 1] === run[0]) {
+                openers.pop();
+            } else if (isCloser) {
+                closers.push(run[0]);
+            } else {
+                openers.push(run[0]);
+            }
+        }
+
+        // Closing runs without opening run need the opening run in front of the match and vice versa
+        let start = this.start;
+        let end = this.end;
+        for (const closer of closers.reverse()) {
+            const opener = closer.split('').reverse().join('');
+            if (text.slice(start - opener.length, start) !== opener) {
+                return false;
+            }
+            start -= opener.length;
+        }
+        for (const opener of openers.reverse()) {
+            const closer = opener.split('').reverse().join('');
+            if (text.slice(end, end + closer.length) !== closer) {
+                return false;
+            }
+            end += closer.length;
+        }
+
+        this.start = start;
+        this.length = end - start;
+        return true;
+    }
+}
+
+export class AliasPattern {
+    constructor(public file: TFile, public source: string, public regex: RegExp) { }
+}
+
+export interface ScannedChar {
+    char: string;
+    // Index of the char in the original text
+    index: number;
+}
+
+// The chars of a text and what the passes of a scan share about them
+interface ScanInput {
+    text: string;
+    chars: ScannedChar[];
+    // Whether the char at the same position is a word boundary
+    boundaries: boolean[];
+    // The spelling of a match is sliced from the joined chars, at the offsets of its first char and of the char after it
+    joinedChars: string;
+    charOffsets: number[];
 }
 
 export class PrefixTree {
     root: PrefixNode = new PrefixNode();
+    // Separate tree for the names without diacritics, if diacritics are ignored
+    foldedRoot: PrefixNode = new PrefixNode();
+    // Separate trees for the stemmed names of each language
+    stemmedRoots: Map<string, PrefixNode> = new Map();
     fetcher: LinkerMetaInfoFetcher;
 
-    _currentNodes: VisitedPrefixNode[] = [];
+    // Trees whose automaton has to be rebuilt before the next search
+    dirtyRoots: Set<PrefixNode> = new Set();
+    // Length of the longest name of each tree
+    mapRootToMaxDepth: Map<PrefixNode, number> = new Map();
+    // Length of the longest name of all trees, names of removed files are not considered
+    maxNameLength: number = 0;
 
     setIndexedFilePaths: Set<string> = new Set();
     mapIndexedFilePathsToUpdateTime: Map<string, number> = new Map();
+    mapFilePathToFingerprint: Map<string, string> = new Map();
+    // Entries of the indexed files, in the format of the stored index
+    mapFilePathToStoredFile: Map<string, StoredFile> = new Map();
     mapFilePathToLeaveNodes: Map<string, PrefixNode[]> = new Map();
-
-    constructor(public app: App, public settings: LinkerPluginSettings) {
+    mapFilePathToPatterns: Map<string, AliasPattern[]> = new Map();
+    mapFilePathToPatternErrors: Map<string, string[]> = new Map();
+    // Compiled scopes of the files, mapped by the value of the scope property
+    mapScopeToRules: Map<string, CompiledRule[]> = new Map();
+    // First paragraphs of the files for the definition tooltips, they are read when a link to the file is hovered
+    mapFilePathToDefinition: Map<string, { mtime: number; definition: string }> = new Map();
+
+    wordBoundaryPattern: RegExp = PrefixTree.defaultWordBoundaryPattern;
+    // Texts of the stop-list in the settings, in lower case
+    excludedTexts: Set<string> = new Set();
+
+    // Increased with every change of the index, to know if the stored index is outdated
+    revision: number = 0;
+    // Hash of the settings that were used to index the files
+    settingsHash: string;
+
+    constructor(public app: App, public settings: LinkerPluginSettings, storedIndex?: StoredIndex | null) {
         this.fetcher = new LinkerMetaInfoFetcher(this.app, this.settings);
-        this.updateTree();
+        this.refreshWordBoundaryPattern();
+        this.excludedTexts = new Set(this.settings.excludedTexts.map((text) => text.toLowerCase()));
+        this.settingsHash = getIndexSettingsHash(this.settings);
+
+        // The files that have changed since the index was stored are indexed by the next update
+        if (!storedIndex || !this.restoreIndex(storedIndex)) {
+            this.updateTree();
+        }
     }
 
     clear() {
+        this.refreshWordBoundaryPattern();
+        this.excludedTexts = new Set(this.settings.excludedTexts.map((text) => text.toLowerCase()));
+        this.settingsHash = getIndexSettingsHash(this.settings);
         this.root = new PrefixNode();
-        this._currentNodes = [];
+        this.foldedRoot = new PrefixNode();
+        this.stemmedRoots.clear();
+        this.dirtyRoots.clear();
+        this.mapRootToMaxDepth.clear();
+        this.maxNameLength = 0;
         this.setIndexedFilePaths.clear();
         this.mapIndexedFilePathsToUpdateTime.clear();
+        this.mapFilePathToFingerprint.clear();
+        this.mapFilePathToStoredFile.clear();
         this.mapFilePathToLeaveNodes.clear();
+        this.mapFilePathToPatterns.clear();
+        this.mapFilePathToPatternErrors.clear();
+        this.mapFilePathToDefinition.clear();
+        this.revision++;
     }
 
-    getCurrentMatchNodes(index: number, excludedNote?: TFile | null): MatchNode[] {
-        const matchNodes: MatchNode[] = [];
-
-        if (excludedNote === undefined && this.settings.excludeLinksToOwnNote) {
-            excludedNote = this.app.workspace.getActiveFile();
+    /**
+     * Returns the tree with the given name, see the stored names of the files.
+     */
+    private getRoot(tree: string): PrefixNode {
+        if (tree === 'default') {
+            return this.root;
+        } else if (tree === 'folded') {
+            return this.foldedRoot;
         }
 
-        // From the current nodes in the trie, get all nodes that have files
-        for (const node of this._currentNodes) {
-            if (node.node.files.size === 0) {
-                continue;
-            }
-            const matchNode = new MatchNode();
-            matchNode.length = node.node.value.length + node.formattingDelta;
-            matchNode.start = index - matchNode.length;
-            matchNode.files = new Set(Array.from(node.node.files).filter((file) => !excludedNote || file.path !== excludedNote.path));
-            matchNode.value = node.node.value;
-            matchNode.requiresCaseMatch = node.node.requiresCaseMatch;
-
-            const fileNames = Array.from(matchNode.files).map((file) => file.basename);
-            const nodeValue = node.node.value;
-            matchNode.isAlias = !fileNames.map((n) => n.toLowerCase()).includes(nodeValue.toLowerCase());
-
-            // Check if the case is matched
-            let currentNode: PrefixNode | undefined = node.node;
-            while (currentNode) {
-                if (!node.caseIsMatched) {
-                    matchNode.caseIsMatched = false;
-                    break;
-                }
-                currentNode = currentNode.parent;
-            }
-
-            // Check if the match starts at a word boundary
-            matchNode.startsAtWordBoundary = node.startedAtWordBeginning;
-
-            if (matchNode.requiresCaseMatch && !matchNode.caseIsMatched) {
-                continue;
-            }
-
-            if (matchNode.files.size > 0) {
-                matchNodes.push(matchNode);
-            }
+        // The stemmed names of each language are stored in a separate tree, e.g. "stemmed:english"
+        const language = tree.replace(/^stemmed:/, '');
+        let root = this.stemmedRoots.get(language);
+        if (!root) {
+            root = new PrefixNode();
+            this.stemmedRoots.set(language, root);
         }
-
-        // Sort nodes by length
-        matchNodes.sort((a, b) => b.length - a.length);
-
-        return matchNodes;
+        return root;
     }
 
-    private addFileWithName(name: string, file: TFile, matchCase: boolean) {
-        let node = this.root;
+    private addFileWithName(name: string, file: TFile, matchCase: boolean, kind: NameKind, tree: string = 'default', subpath?: string) {
+        const root = this.getRoot(tree);
+        let node = root;
 
         // For each character in the name, add a node to the trie
-        for (let char of name) {
-            // char = char.toLowerCase();
-            let child = node.children.get(char);
+        let addedNode = false;
+        for (const char of name) {
+            const key = char.toLowerCase();
+            let child = node.children.get(key);
             if (!child) {
+                addedNode = true;
                 child = new PrefixNode();
                 child.parent = node;
-                child.charValue = char;
-                child.value = node.value + char;
-                node.children.set(char, child);
+                child.charValue = key;
+                child.value = node.value + key;
+                child.depth = node.depth + 1;
+                node.children.set(key, child);
             }
             node = child;
         }
 
+        // A heading or block with a name of the file is not added, the name links to the file itself
+        if (subpath !== undefined && node.hasFile(file)) {
+            return;
+        }
+
+        // The links of the automaton only change, if a node is added or a node gets its first file
+        if (addedNode || !node.hasFiles()) {
+            this.dirtyRoots.add(root);
+        }
+
         // The last node is a leaf node, add the file to the node
-        node.files.add(file);
-        node.requiresCaseMatch = matchCase;
+        if (matchCase) {
+            node.caseSensitiveFiles ??= new Map();
+            node.caseSensitiveFiles.set(name, (node.caseSensitiveFiles.get(name) ?? new Set()).add(file));
+        } else {
+            node.files.add(file);
+            node.caseInsensitiveSpellings ??= new Map();
+            node.caseInsensitiveSpellings.set(name, (node.caseInsensitiveSpellings.get(name) ?? new Set()).add(file));
+        }
+        if (kind !== 'title') {
+            (node.aliasFiles ??= new Set()).add(file);
+        }
+        if (kind === 'acronym') {
+            (node.acronymFiles ??= new Set()).add(file);
+        } else if (kind.startsWith('property:')) {
+            (node.propertyFiles ??= new Map()).set(file, kind.slice('property:'.length));
+        }
+        if (subpath !== undefined) {
+            (node.subpaths ??= new Map()).set(file, subpath);
+        }
+        this.maxNameLength = Math.max(this.maxNameLength, node.depth);
 
         // Store the leaf node for the file to be able to remove it later
         const path = file.path;
         this.mapFilePathToLeaveNodes.set(path, [node, ...(this.mapFilePathToLeaveNodes.get(path) ?? [])]);
+        this.mapFilePathToStoredFile.get(path)?.names.push(subpath === undefined ? [name, matchCase, kind, tree] : [name, matchCase, kind, tree, subpath]);
         // console.log("Adding file", file, name);
     }
 
@@ -163,7 +362,15 @@ export class PrefixTree {
         return value !== null && value !== undefined && typeof value === 'string' && value.trim().length > 0;
     }
 
-    private static isUpperCaseString(value: string | null | undefined, upperCasePart = 0.75) {
+    /**
+     * Returns the non-empty strings of a frontmatter value, that can be a single value or a list.
+     */
+    static getStringList(value: unknown): string[] {
+        const values: unknown[] = Array.isArray(value) ? value : [value];
+        return values.filter((v): v is string => PrefixTree.isNoneEmptyString(v as string));
+    }
+
+    static isUpperCaseString(value: string | null | undefined, upperCasePart = 0.75) {
         if (!PrefixTree.isNoneEmptyString(value)) {
             return false;
         }
@@ -185,8 +392,15 @@ export class PrefixTree {
         this.removeFileFromTree(file);
 
         // Add the file to the set of indexed files
+        // The update time is only stored if the metadata is available, otherwise the file is indexed again later
         this.setIndexedFilePaths.add(path);
-        this.mapIndexedFilePathsToUpdateTime.set(path, file.stat.mtime);
+        if (this.app.metadataCache.getFileCache(file)) {
+            this.mapIndexedFilePathsToUpdateTime.set(path, file.stat.mtime);
+        }
+        const fingerprint = this.getFingerprint(file);
+        this.mapFilePathToFingerprint.set(path, fingerprint);
+        this.mapFilePathToStoredFile.set(path, { mtime: file.stat.mtime, fingerprint, names: [], patterns: [] });
+        this.revision++;
 
         // Get the virtual linker related metadata of the file
         const metaInfo = this.fetcher.getMetaInfo(file);
@@ -197,37 +411,28 @@ export class PrefixTree {
             .filter(PrefixTree.isNoneEmptyString)
             .map((tag) => (tag.startsWith('#') ? tag.slice(1) : tag));
 
-        const includeFile = metaInfo.includeFile;
-        const excludeFile = metaInfo.excludeFile;
-
-        const isInIncludedDir = metaInfo.isInIncludedDir;
-        const isInExcludedDir = metaInfo.isInExcludedDir;
-
         // console.log({
         //     file: file.path,
         //     tags: tags,
-        //     includeFile,
-        //     excludeFile,
-        //     isInIncludedDir,
-        //     isInExcludedDir,
-        //     includeAllFiles: metaInfo.includeAllFiles
+        //     targetDecision: metaInfo.targetDecision
         // });
 
-        if (excludeFile || (isInExcludedDir && !includeFile)) {
-            return;
-        }
-
-        // Skip files that are not in the linker directories
-        if (!includeFile && !isInIncludedDir && !metaInfo.includeAllFiles) {
+        // Skip files that are excluded as link targets by the rules (including the folder and tag settings)
+        if (!metaInfo.isLinkTarget) {
             return;
         }
 
         const metadata = this.app.metadataCache.getFileCache(file);
         let aliases: string[] = metadata?.frontmatter?.aliases ?? [];
 
+        this.addPatternsOfFile(file, PrefixTree.getStringList(metadata?.frontmatter?.[this.settings.propertyNameToPatterns]));
+
         let aliasesWithMatchCase: Set<string> = new Set(metadata?.frontmatter?.[this.settings.propertyNameToMatchCase] ?? []);
         let aliasesWithIgnoreCase: Set<string> = new Set(metadata?.frontmatter?.[this.settings.propertyNameToIgnoreCase] ?? []);
         let excludedAliases: Set<string> = new Set(metadata?.frontmatter?.[this.settings.propertyNameToExcludeTexts] ?? []);
+        let aliasesWithMatchDiacritics: Set<string> = new Set(
+            PrefixTree.getStringList(metadata?.frontmatter?.[this.settings.propertyNameToMatchDiacritics]).map((name) => name.toLowerCase())
+        );
 
         // if (aliasesWithMatchCase.size > 0 || aliasesWithIgnoreCase.size > 0) {
         //     console.log("Aliases with match case", aliasesWithMatchCase, file.basename);
@@ -247,13 +452,25 @@ export class PrefixTree {
             console.error('[VL LC] Error filtering aliases', aliases, e);
         }
 
-        let names = [file.basename];
+        const title = this.getTitle(file, metadata);
+        let names = title ? [title] : [];
         if (aliases && this.settings.includeAliases) {
             names.push(...aliases);
         }
 
+        // The values of the name properties are added as names, unless they are already the title or an alias
+        const mapNameToProperty = new Map<string, NameProperty>();
+        for (const property of this.settings.nameProperties) {
+            for (const name of PrefixTree.getStringList(metadata?.frontmatter?.[property.name])) {
+                if (!names.some((other) => other.toLowerCase() === name.toLowerCase())) {
+                    names.push(name);
+                    mapNameToProperty.set(name, property);
+                }
+            }
+        }
+
         names = names.filter(PrefixTree.isNoneEmptyString);
-        names = names.filter((name) => !excludedAliases.has(name));
+        names = names.filter((name) => !excludedAliases.has(name) && !this.excludedTexts.has(name.toLowerCase()));
 
         let namesWithCaseIgnore = new Array<string>();
         let namesWithCaseMatch = new Array<string>();
@@ -290,32 +507,364 @@ export class PrefixTree {
         namesWithCaseIgnore.push(...namesToMoveFromMatchToIgnore);
         namesWithCaseMatch.push(...namesToMoveFromIgnoreToMatch);
 
-        namesWithCaseIgnore.push(...namesWithCaseIgnore.map((name) => name.toLowerCase()));
+        // The case mode of a name property overrides the case sensitivity of its values
+        const hasCaseMode = (name: string, caseMode: NameProperty['caseMode']) => mapNameToProperty.get(name)?.caseMode === caseMode;
+        namesWithCaseIgnore.push(...namesWithCaseMatch.filter((name) => hasCaseMode(name, 'ignore')));
+        namesWithCaseMatch.push(...namesWithCaseIgnore.filter((name) => hasCaseMode(name, 'match')));
+        namesWithCaseIgnore = namesWithCaseIgnore.filter((name) => !hasCaseMode(name, 'match'));
+        namesWithCaseMatch = namesWithCaseMatch.filter((name) => !hasCaseMode(name, 'ignore'));
+
+        // Short names are only matched case sensitive
+        namesWithCaseMatch.push(...namesWithCaseIgnore.filter((name) => !this.hasMinimumLength(name)));
+        namesWithCaseIgnore = namesWithCaseIgnore.filter((name) => this.hasMinimumLength(name));
+
+        const getKind = (name: string): NameKind => {
+            const property = mapNameToProperty.get(name);
+            if (property) {
+                return `property:${property.name}`;
+            }
+            return name.toLowerCase() !== title?.toLowerCase() ? 'alias' : 'title';
+        };
+
+        // If diacritics are ignored, names are added without diacritics to a separate tree,
+        // except for the names that should match the diacritics exactly
+        const ignoreDiacritics = (name: string) => this.settings.ignoreDiacritics && !aliasesWithMatchDiacritics.has(name.toLowerCase());
+        const normalizeName = (name: string) => {
+            const normalizedName = this.settings.normalizeSeparators ? PrefixTree.normalizeSeparators(name) : name;
+            if (!this.settings.ignoreDiacritics) {
+                return normalizedName;
+            }
+            return ignoreDiacritics(name) ? PrefixTree.foldText(normalizedName) : normalizedName.normalize('NFC');
+        };
 
         namesWithCaseIgnore.forEach((name) => {
-            this.addFileWithName(name, file, false);
+            this.addFileWithName(normalizeName(name), file, false, getKind(name), ignoreDiacritics(name) ? 'folded' : 'default');
         });
 
         namesWithCaseMatch.forEach((name) => {
-            this.addFileWithName(name, file, true);
+            this.addFileWithName(normalizeName(name), file, true, getKind(name), ignoreDiacritics(name) ? 'folded' : 'default');
         });
+
+        // Acronyms of multi-word names (e.g. "SLO" for "Service Level Objective") are always matched case sensitive
+        const acronymProperty = metadata?.frontmatter?.[this.settings.propertyNameToGenerateAcronyms];
+        if (typeof acronymProperty === 'boolean' ? acronymProperty : this.settings.generateAcronyms) {
+            const lowerCaseNames = new Set(names.map((name) => name.toLowerCase()));
+            const acronyms = new Set(names.map((name) => this.getAcronym(name)));
+            acronyms.forEach((acronym) => {
+                if (acronym && !lowerCaseNames.has(acronym.toLowerCase()) && !excludedAliases.has(acronym) && !this.excludedTexts.has(acronym.toLowerCase())) {
+                    this.addFileWithName(normalizeName(acronym), file, true, 'acronym', ignoreDiacritics(acronym) ? 'folded' : 'default');
+                }
+            });
+        }
+
+        // Add the stemmed names, so that inflected forms are matched (e.g. "neural networks" for "Neural Network")
+        // Names that require a case match are not stemmed, since stemmed text is always lower case
+        for (const stemmer of this.getStemmers(metadata?.frontmatter)) {
+            const stemmedNames = new Map<string, NameKind>();
+            namesWithCaseIgnore.forEach((name) => stemmedNames.set(this.stemText(normalizeName(name), stemmer), getKind(name)));
+            stemmedNames.forEach((kind, stemmedName) => {
+                this.addFileWithName(stemmedName, file, false, kind, `stemmed:${stemmer.language}`);
+            });
+        }
+
+        // Headings and blocks link to their section of the file, e.g. "Gradient Descent" to "Glossary#Gradient Descent"
+        // Their case sensitivity is determined like the one of the names, they are not stemmed
+        const sectionMatchesCase = (name: string) => {
+            if (aliasesWithMatchCase.has(name) || aliasesWithIgnoreCase.has(name)) {
+                return aliasesWithMatchCase.has(name);
+            }
+            if (this.settings.matchCaseSensitive) {
+                return !tags.includes(this.settings.tagToIgnoreCase);
+            }
+            const prop = this.settings.capitalLetterProportionForAutomaticMatchCase;
+            return tags.includes(this.settings.tagToMatchCase) || PrefixTree.isUpperCaseString(name, prop);
+        };
+        for (const { name, subpath } of this.getSectionTargets(file, metadata)) {
+            const matchCase = sectionMatchesCase(name) || !this.hasMinimumLength(name);
+            if (excludedAliases.has(name) || this.excludedTexts.has(name.toLowerCase())) {
+                continue;
+            }
+            const tree = ignoreDiacritics(name) ? 'folded' : 'default';
+            this.addFileWithName(normalizeName(name), file, matchCase, 'title', tree, subpath);
+        }
+    }
+
+    /**
+     * Returns the primary name of a file: the value of the title property if it is set, otherwise the file name.
+     * Returns null, if the file has no title property and the file name should not be used instead.
+     */
+    getTitle(file: TFile, metadata: CachedMetadata | null): string | null {
+        if (this.settings.propertyNameToTitle.length > 0) {
+            const title = PrefixTree.getStringList(metadata?.frontmatter?.[this.settings.propertyNameToTitle])[0]?.trim();
+            if (title) {
+                return title;
+            }
+            if (!this.settings.fallbackToFileNameAsTitle) {
+                return null;
+            }
+        }
+        return file.basename;
+    }
+
+    /**
+     * Returns the definition of a file for the tooltips of the links: the value of the definition property or the first paragraph of the note.
+     * The first paragraph is read again, if the file has changed.
+     */
+    async getDefinition(file: TFile): Promise<string> {
+        const metadata = this.app.metadataCache.getFileCache(file);
+        const property = PrefixTree.getStringList(metadata?.frontmatter?.[this.settings.propertyNameToDefinition])[0]?.trim();
+        if (property) {
+            return property;
+        }
+
+        const cachedDefinition = this.mapFilePathToDefinition.get(file.path);
+        if (cachedDefinition && cachedDefinition.mtime === file.stat.mtime) {
+            return cachedDefinition.definition;
+        }
+        const definition = PrefixTree.getFirstParagraph(await this.app.vault.cachedRead(file), metadata);
+        this.mapFilePathToDefinition.set(file.path, { mtime: file.stat.mtime, definition });
+        return definition;
+    }
+
+    /**
+     * Returns the text of the first paragraph of a note, without the formatting and with the shown texts of the links.
+     */
+    static getFirstParagraph(content: string, metadata: CachedMetadata | null): string {
+        let paragraph = '';
+        const section = metadata?.sections?.find((section) => section.type === 'paragraph');
+        if (section) {
+            paragraph = content.slice(section.position.start.offset, section.position.end.offset);
+        } else if (!metadata?.sections) {
+            // Without the sections of the metadata, the first block of text after the frontmatter is used
+            const body = content.replace(/^---\r?\n[\s\S]*?\r?\n---[ \t]*(?:\r?\n|$)/, '');
+            paragraph = body.split(/\r?\n[ \t]*\r?\n/).find((block) => /^\s*[^\s#>|`~!-]/.test(block)) ?? '';
+        }
+
+        return paragraph
+            .replace(/!?\[\[([^\]|]*)(?:\|([^\]]*))?\]\]/g, (_, link: string, alias?: string) => alias ?? link.replace('#', ' > '))
+            .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+            .replace(/[*_=~`]+/g, '')
+            .replace(/\s+/g, ' ')
+            .trim();
+    }
+
+    /**
+     * Returns true, if the name is not shorter than the minimum length of names that are matched case insensitive.
+     */
+    private hasMinimumLength(name: string): boolean {
+        return [...name.trim()].length >= this.settings.minimumNameLength;
+    }
+
+    /**
+     * Returns the upper case initials of the words of a name, or null if the name consists of a single word.
+     */
+    private getAcronym(name: string): string | null {
+        const words = PrefixTree.tokenize(name, this.wordBoundaryPattern);
+        if (words.length < 2) {
+            return null;
+        }
+        return words.map((word) => String.fromCodePoint(word.codePointAt(0)!).toUpperCase()).join('');
+    }
+
+    /**
+     * Returns the generated acronyms, that are also a name of another file, and the paths of the files sharing them.
+     */
+    getAcronymCollisions(): Map<string, string[]> {
+        const mapAcronymToFilePaths = new Map<string, Set<string>>();
+        for (const [path, storedFile] of this.mapFilePathToStoredFile) {
+            for (const [name, , kind] of storedFile.names) {
+                if (kind === 'acronym') {
+                    mapAcronymToFilePaths.set(name, (mapAcronymToFilePaths.get(name) ?? new Set()).add(path));
+                }
+            }
+        }
+
+        // Names that are matched case insensitive collide with an acronym of any case
+        const lowerCaseAcronyms = new Map<string, string[]>();
+        mapAcronymToFilePaths.forEach((_, acronym) => {
+            lowerCaseAcronyms.set(acronym.toLowerCase(), [...(lowerCaseAcronyms.get(acronym.toLowerCase()) ?? []), acronym]);
+        });
+        for (const [path, storedFile] of this.mapFilePathToStoredFile) {
+            for (const [name, matchCase, kind, tree] of storedFile.names) {
+                if (kind === 'acronym' || tree.startsWith('stemmed:')) {
+                    continue;
+                }
+                const acronyms = matchCase ? (mapAcronymToFilePaths.has(name) ? [name] : []) : lowerCaseAcronyms.get(name.toLowerCase()) ?? [];
+                acronyms.forEach((acronym) => mapAcronymToFilePaths.get(acronym)!.add(path));
+            }
+        }
+
+        const collisions = new Map<string, string[]>();
+        mapAcronymToFilePaths.forEach((paths, acronym) => {
+            if (paths.size > 1) {
+                collisions.set(acronym, Array.from(paths).sort());
+            }
+        });
+        return collisions;
+    }
+
+    /**
+     * Returns the headings and blocks of a file, that are linked as sections of the file.
+     * The names of blocks are their ids, with spaces instead of hyphens and underscores.
+     */
+    private getSectionTargets(file: TFile, metadata: CachedMetadata | null): { name: string; subpath: string }[] {
+        const directories = this.settings.sectionTargetDirectories;
+        if (directories.length > 0 && !directories.some((directory) => `/${file.path}`.includes(`/${directory}/`))) {
+            return [];
+        }
+
+        const targets: { name: string; subpath: string }[] = [];
+        if (this.settings.includeHeadingTargets) {
+            for (const heading of metadata?.headings ?? []) {
+                if (this.settings.headingTargetLevels.includes(heading.level) && PrefixTree.isNoneEmptyString(heading.heading)) {
+                    targets.push({ name: heading.heading.trim(), subpath: `#${heading.heading}` });
+                }
+            }
+        }
+        if (this.settings.includeBlockTargets) {
+            for (const id of Object.keys(metadata?.blocks ?? {})) {
+                const name = id.replace(/[-_]+/g, ' ').trim();
+                if (name.length > 0) {
+                    targets.push({ name, subpath: `#^${id}` });
+                }
+            }
+        }
+        return targets;
     }
 
-    private removeFileFromTree(file: TFile | string) {
-        const path = typeof file === 'string' ? file : file.path;
+    /**
+     * Compiles the regex patterns of a file. Invalid patterns are stored as errors.
+     */
+    private addPatternsOfFile(file: TFile, sources: string[]) {
+        const storedFile = this.mapFilePathToStoredFile.get(file.path);
+        if (storedFile) {
+            storedFile.patterns = sources;
+        }
+
+        const patterns: AliasPattern[] = [];
+        const errors: string[] = [];
+        for (const source of sources) {
+            try {
+                patterns.push(new AliasPattern(file, source, PrefixTree.compilePattern(source, this.settings.matchCaseSensitive)));
+            } catch (e) {
+                errors.push(`"${source}": ${e instanceof Error ? e.message : e}`);
+            }
+        }
+
+        if (patterns.length > 0) {
+            this.mapFilePathToPatterns.set(file.path, patterns);
+        }
+        if (errors.length > 0) {
+            this.mapFilePathToPatternErrors.set(file.path, errors);
+        }
+    }
+
+    /**
+     * Compiles a pattern of the patterns property of a note.
+     * Throws an error, if the pattern is invalid.
+     */
+    static compilePattern(source: string, caseSensitive: boolean): RegExp {
+        let regex: RegExp;
+        try {
+            regex = new RegExp(source, caseSensitive ? 'gu' : 'giu');
+        } catch (e) {
+            throw new Error(e instanceof Error ? e.message.replace(/^Invalid regular expression: (\/.*\/[a-z]*: )?/, '') : 'Invalid regex');
+        }
+
+        if (regex.test('')) {
+            throw new Error('The pattern must not match an empty string');
+        }
+        regex.lastIndex = 0;
+        return regex;
+    }
+
+    /**
+     * Returns the errors of all invalid patterns, mapped by the file paths.
+     */
+    getPatternErrors(): Map<string, string[]> {
+        return this.mapFilePathToPatternErrors;
+    }
+
+    /**
+     * Returns the stemmers for the names of a file.
+     * The languages can be overwritten in the frontmatter of the file, e.g. `linker-language: german` or `linker-language: none`.
+     */
+    private getStemmers(frontmatter: Record<string, any> | undefined): Stemmer[] {
+        let languages: string[] = this.settings.stemmingLanguages;
+
+        const property = frontmatter?.[this.settings.propertyNameToStemmingLanguage];
+        if (property === false) {
+            languages = [];
+        } else if (property !== undefined && property !== null) {
+            languages = PrefixTree.getStringList(property);
+        }
+
+        const stemmers: Stemmer[] = [];
+        for (const language of languages) {
+            const stemmer = getStemmer(language);
+            if (stemmer && !stemmers.includes(stemmer)) {
+                stemmers.push(stemmer);
+            }
+        }
+        return stemmers;
+    }
+
+    /**
+     * Stems every word of the text, the word boundaries are kept.
+     */
+    private stemText(text: string, stemmer: Stemmer): string {
+        let stemmedText = '';
+        let word = '';
+        for (const char of text) {
+            if (this.checkWordBoundary(char)) {
+                stemmedText += (word.length > 0 ? stemmer.stem(word) : '') + char;
+                word = '';
+            } else {
+                word += char;
+            }
+        }
+        return stemmedText + (word.length > 0 ? stemmer.stem(word) : '');
+    }
+
+    /**
+     * Removes the entries of a file. The path can differ from the path of the file, if the file has been renamed.
+     */
+    private removeFileFromTree(file: TFile | string, path: string = typeof file === 'string' ? file : file.path) {
+        const isRemovedFile = (f: TFile) => f === file || f.path === path;
 
         // Get the leaf nodes of the file
         const nodes = this.mapFilePathToLeaveNodes.get(path) ?? [];
         for (const node of nodes) {
             // Remove the file from the node
-            node.files = new Set([...node.files].filter((f) => f.path !== path));
+            node.files = new Set([...node.files].filter((f) => !isRemovedFile(f)));
+            node.aliasFiles = node.aliasFiles && new Set([...node.aliasFiles].filter((f) => !isRemovedFile(f)));
+            node.acronymFiles = node.acronymFiles && new Set([...node.acronymFiles].filter((f) => !isRemovedFile(f)));
+            node.propertyFiles = node.propertyFiles && new Map([...node.propertyFiles].filter(([f]) => !isRemovedFile(f)));
+            node.subpaths = node.subpaths && new Map([...node.subpaths].filter(([f]) => !isRemovedFile(f)));
+            for (const spellings of [node.caseSensitiveFiles, node.caseInsensitiveSpellings]) {
+                if (!spellings) {
+                    continue;
+                }
+                for (const [spelling, files] of spellings) {
+                    const remainingFiles = new Set([...files].filter((f) => !isRemovedFile(f)));
+                    if (remainingFiles.size > 0) {
+                        spellings.set(spelling, remainingFiles);
+                    } else {
+                        spellings.delete(spelling);
+                    }
+                }
+            }
         }
 
         // If the nodes have no files or children, remove them from the tree
         for (let i = nodes.length - 1; i >= 0; i--) {
             const node = nodes[i];
+            if (node.hasFiles()) {
+                continue;
+            }
+
             let currentNode = node;
-            while (currentNode.files.size === 0 && currentNode.children.size === 0) {
+            while (!currentNode.hasFiles() && currentNode.children.size === 0) {
                 const parent = currentNode.parent;
                 if (!parent || parent === this.root) {
                     break;
@@ -323,14 +872,142 @@ export class PrefixTree {
                 parent.children.delete(currentNode.charValue);
                 currentNode = parent;
             }
+
+            // The links of the automaton have to be rebuilt
+            let root = node;
+            while (root.parent) {
+                root = root.parent;
+            }
+            this.dirtyRoots.add(root);
         }
 
         // Remove the file from the set of indexed files
         this.setIndexedFilePaths.delete(path);
         this.mapFilePathToLeaveNodes.delete(path);
+        this.mapFilePathToPatterns.delete(path);
+        this.mapFilePathToPatternErrors.delete(path);
+        this.mapFilePathToDefinition.delete(path);
 
         // Remove the update time of the file
         this.mapIndexedFilePathsToUpdateTime.delete(path);
+        this.mapFilePathToFingerprint.delete(path);
+        this.mapFilePathToStoredFile.delete(path);
+        this.revision++;
+    }
+
+    /**
+     * Returns the values that determine the index entries of a file. The file only has to be indexed again, if they change.
+     */
+    private getFingerprint(file: TFile): string {
+        const metadata = this.app.metadataCache.getFileCache(file);
+        const properties = [
+            'aliases',
+            this.settings.propertyNameToMatchCase,
+            this.settings.propertyNameToIgnoreCase,
+            this.settings.propertyNameToExcludeTexts,
+            this.settings.propertyNameToMatchDiacritics,
+            this.settings.propertyNameToPatterns,
+            this.settings.propertyNameToStemmingLanguage,
+            this.settings.propertyNameToGenerateAcronyms,
+            this.settings.propertyNameToScope,
+            this.settings.propertyNameToTitle,
+            ...this.settings.nameProperties.map((property) => property.name),
+            ...this.settings.rules.filter((rule) => rule.type === 'property').map((rule) => rule.pattern.split(':')[0].trim()),
+        ].map((property) => metadata?.frontmatter?.[property] ?? null);
+        const sections = this.getSectionTargets(file, metadata);
+        return JSON.stringify([file.path, metadata ? getAllTags(metadata) : null, properties, sections]);
+    }
+
+    /**
+     * Indexes a file again, if its entries could have changed.
+     * Returns true, if the file had to be indexed again.
+     */
+    private updateFileInTree(file: TFile): boolean {
+        if (this.mapFilePathToFingerprint.get(file.path) === this.getFingerprint(file)) {
+            const storedFile = this.mapFilePathToStoredFile.get(file.path);
+            if (this.app.metadataCache.getFileCache(file) && storedFile) {
+                this.mapIndexedFilePathsToUpdateTime.set(file.path, file.stat.mtime);
+                storedFile.mtime = file.stat.mtime;
+                this.revision++;
+            }
+            return false;
+        }
+
+        try {
+            this.addFileToTree(file);
+        } catch (e) {
+            console.error('[VL LC] Error adding file to tree', file, e);
+        }
+        return true;
+    }
+
+    /**
+     * Adds the entries of the stored index for the files that have not changed since the index was stored.
+     * Returns false, if the index was stored with other settings.
+     */
+    private restoreIndex(storedIndex: StoredIndex): boolean {
+        if (storedIndex.settingsHash !== this.settingsHash) {
+            return false;
+        }
+
+        for (const file of this.app.vault.getMarkdownFiles()) {
+            const storedFile = storedIndex.files[file.path];
+            if (!storedFile || storedFile.mtime !== file.stat.mtime) {
+                continue;
+            }
+
+            this.setIndexedFilePaths.add(file.path);
+            this.mapIndexedFilePathsToUpdateTime.set(file.path, storedFile.mtime);
+            this.mapFilePathToFingerprint.set(file.path, storedFile.fingerprint);
+            this.mapFilePathToStoredFile.set(file.path, { ...storedFile, names: [] });
+            for (const [name, matchCase, kind, tree, subpath] of storedFile.names) {
+                this.addFileWithName(name, file, matchCase, kind, tree, subpath);
+            }
+            if (storedFile.patterns.length > 0) {
+                this.addPatternsOfFile(file, storedFile.patterns);
+            }
+        }
+        return true;
+    }
+
+    /**
+     * Returns the entries of the files, whose metadata was available when they were indexed.
+     */
+    getStoredIndex(): StoredIndex {
+        const files: Record<string, StoredFile> = {};
+        for (const [path, storedFile] of this.mapFilePathToStoredFile) {
+            if (this.mapIndexedFilePathsToUpdateTime.has(path)) {
+                files[path] = storedFile;
+            }
+        }
+        return { version: STORED_INDEX_VERSION, settingsHash: this.settingsHash, files };
+    }
+
+    /**
+     * Returns true, if the file has any entries in the index.
+     */
+    private hasEntries(path: string): boolean {
+        return (this.mapFilePathToLeaveNodes.get(path)?.length ?? 0) > 0 || this.mapFilePathToPatterns.has(path);
+    }
+
+    /**
+     * Updates the entries of a single file, e.g. after its metadata has changed.
+     * Returns true, if the links in the views could have changed.
+     */
+    updateFile(file: TFile): boolean {
+        this.fetcher.refreshSettings();
+        const hadEntries = this.hasEntries(file.path);
+        return this.updateFileInTree(file) && (hadEntries || this.hasEntries(file.path));
+    }
+
+    /**
+     * Removes the entries of a deleted or renamed file.
+     * Returns true, if the links in the views could have changed.
+     */
+    removeFile(file: TFile | string, path: string = typeof file === 'string' ? file : file.path): boolean {
+        const hadEntries = this.hasEntries(path);
+        this.removeFileFromTree(file, path);
+        return hadEntries;
     }
 
     private fileIsUpToDate(file: TFile) {
@@ -339,29 +1016,20 @@ export class PrefixTree {
         return this.mapIndexedFilePathsToUpdateTime.has(path) && this.mapIndexedFilePathsToUpdateTime.get(path) === mtime;
     }
 
-    updateTree(updateFiles?: (string | undefined)[]) {
+    /**
+     * Indexes the files that have changed since they were indexed and removes the files that are no longer in the vault.
+     * Returns true, if the links in the views could have changed.
+     */
+    updateTree(): boolean {
         this.fetcher.refreshSettings();
 
         const currentVaultFiles = new Set<string>();
-        let files = new Array<TFile>();
         const allFiles = this.app.vault.getMarkdownFiles();
 
         allFiles.forEach((f) => currentVaultFiles.add(f.path));
 
-        // If the number of files has changed, update all files
-        if (allFiles.length != this.setIndexedFilePaths.size || !updateFiles || updateFiles.length == 0) {
-            files = allFiles;
-        } else {
-            // If files are provided, only update the provided files
-            files = updateFiles
-                .map((f) => (f ? this.app.vault.getAbstractFileByPath(f) : null))
-                .filter((f) => f !== null && f instanceof TFile) as TFile[];
-        }
-
-        for (const file of files) {
-            // Get the update time of the file
-            const mtime = file.stat.mtime;
-
+        let changed = false;
+        for (const file of allFiles) {
             // Check if the file has been updated
             if (this.fileIsUpToDate(file)) {
                 continue;
@@ -369,17 +1037,21 @@ export class PrefixTree {
             // console.log("Updating", file, file.stat.mtime, this.mapIndexedFilePathsToUpdateTime.get(file.path));
 
             // Otherwise, add the file to the tree
-            try {
-                this.addFileToTree(file);
-            } catch (e) {
-                console.error('[VL LC] Error adding file to tree', file, e);
+            const hadEntries = this.hasEntries(file.path);
+            if (this.updateFileInTree(file) && (hadEntries || this.hasEntries(file.path))) {
+                changed = true;
             }
         }
 
         // Remove files that are no longer in the vault
         const filesToRemove = [...this.setIndexedFilePaths].filter((f) => !currentVaultFiles.has(f));
         // console.log("Removing", filesToRemove);
-        filesToRemove.forEach((f) => this.removeFileFromTree(f));
+        filesToRemove.forEach((f) => {
+            if (this.removeFile(f)) {
+                changed = true;
+            }
+        });
+        return changed;
     }
 
     findFiles(prefix: string): Set<TFile> {
@@ -393,58 +1065,532 @@ export class PrefixTree {
         return node.files;
     }
 
-    resetSearch() {
-        // this._current = this.root;
-        this._currentNodes = [new VisitedPrefixNode(this.root)];
+    /**
+     * Searches the text for all names in the tree.
+     * The returned match nodes contain the offsets of the matches in the given text.
+     * The settings of the note containing the text can override the settings for matching words (see the profiles).
+     * The source note is the note containing the text (not necessarily the active note, e.g. for embeds and hover popovers).
+     * Files that are scoped to other notes than the source note are removed from the match nodes.
+     */
+    findMatchNodes(text: string, sourceFile: TFile | null, settings: LinkerPluginSettings = this.settings): MatchNode[] {
+        const excludedNote = settings.excludeLinksToOwnNote ? sourceFile : null;
+
+        let textChars = PrefixTree.getTextChars(text);
+        if (this.settings.normalizeSeparators) {
+            textChars = PrefixTree.collapseSeparatorChars(textChars);
+        }
+        let matchNodes: MatchNode[] = [];
+
+        if (this.settings.ignoreDiacritics) {
+            // Names that match diacritics exactly are searched in the normalized text,
+            // all other names are searched in the text without diacritics
+            matchNodes = this.scan(text, PrefixTree.normalizeTextChars(textChars, false), this.root, excludedNote, false, settings);
+            textChars = PrefixTree.normalizeTextChars(textChars, true);
+            matchNodes.push(...this.scan(text, textChars, this.foldedRoot, excludedNote, false, settings));
+        } else {
+            matchNodes = this.scan(text, textChars, this.root, excludedNote, false, settings);
+        }
+
+        // Search the stemmed text in the trees of stemmed names
+        // Stems are only matched as whole words, since the chars of a stem do not correspond to the chars of the text
+        for (const [language, root] of this.stemmedRoots) {
+            const stemmer = getStemmer(language);
+            if (stemmer) {
+                matchNodes.push(...this.scan(text, this.getStemmedTextChars(textChars, stemmer), root, excludedNote, true, settings));
+            }
+        }
+
+        matchNodes.push(...this.findPatternMatchNodes(text, excludedNote, settings));
+
+        return this.filterScopedFiles(matchNodes, sourceFile);
     }
 
-    pushChar(char: string) {
-        const newNodes: VisitedPrefixNode[] = [];
-        const chars = [char];
-        chars.push(char.toLowerCase());
+    /**
+     * Removes the files from the match nodes, whose scope does not include the source note.
+     * The scope property of a file contains folder globs and tags, e.g. "Biology/**" or "#biology".
+     */
+    private filterScopedFiles(matchNodes: MatchNode[], sourceFile: TFile | null): MatchNode[] {
+        const scopeProperty = this.settings.propertyNameToScope;
+        const sourceMetadata = sourceFile ? this.app.metadataCache.getFileCache(sourceFile) : null;
+        const sourceTags = ((sourceMetadata ? getAllTags(sourceMetadata) : null) ?? []).map((tag) => (tag.startsWith('#') ? tag.slice(1) : tag));
+
+        const isInScope = (file: TFile) => {
+            const scope = PrefixTree.getStringList(this.app.metadataCache.getFileCache(file)?.frontmatter?.[scopeProperty]);
+            if (scope.length === 0) {
+                return true;
+            }
+            if (!sourceFile) {
+                return false;
+            }
+
+            const key = JSON.stringify(scope);
+            let rules = this.mapScopeToRules.get(key);
+            if (!rules) {
+                rules = scope.map(
+                    (entry) => new CompiledRule({ type: entry.startsWith('#') ? 'tag' : 'path', pattern: entry, include: true, scope: 'source' }, entry)
+                );
+                this.mapScopeToRules.set(key, rules);
+            }
+            return rules.some((rule) => rule.matches(sourceFile.path, sourceTags, sourceMetadata?.frontmatter));
+        };
 
-        chars.forEach((c) => {
-            // char = char.toLowerCase();
-            const isBoundary = PrefixTree.checkWordBoundary(c);
-            if (this.settings.matchAnyPartsOfWords || isBoundary || this.settings.matchEndOfWords) {
-                // , this.settings.wordBoundaryRegex
-                newNodes.push(new VisitedPrefixNode(this.root, true, isBoundary));
+        return matchNodes.filter((node) => {
+            for (const file of node.files) {
+                if (!isInScope(file)) {
+                    node.files.delete(file);
+                }
             }
+            return node.files.size > 0;
+        });
+    }
 
-            for (const node of this._currentNodes) {
-                const child = node.node.children.get(c);
-                const startedAtBoundary = node.startedAtWordBeginning;
-                if (child) {
-                    const newPrefixNodes = newNodes.map((n) => n.node);
-                    if (!newPrefixNodes.includes(child)) {
-                        const newVisited = new VisitedPrefixNode(child, char == c, startedAtBoundary);
-                        newVisited.formattingDelta = node.formattingDelta;
-                        newNodes.push(newVisited);
+    /**
+     * Searches the text for the regex patterns of the files.
+     * Matches of several files with the same position are merged into one match node.
+     */
+    private findPatternMatchNodes(text: string, excludedNote: TFile | null, settings: LinkerPluginSettings = this.settings): MatchNode[] {
+        const matchNodes: Map<string, MatchNode> = new Map();
+
+        for (const patterns of this.mapFilePathToPatterns.values()) {
+            for (const pattern of patterns) {
+                if (excludedNote && pattern.file.path === excludedNote.path) {
+                    continue;
+                }
+
+                pattern.regex.lastIndex = 0;
+                let match: RegExpExecArray | null;
+                while ((match = pattern.regex.exec(text)) !== null) {
+                    if (match[0].length === 0) {
+                        pattern.regex.lastIndex++;
+                        continue;
+                    }
+                    // The stop-list also applies to the texts matched by patterns
+                    if (this.excludedTexts.has(match[0].toLowerCase())) {
+                        continue;
+                    }
+
+                    const start = match.index;
+                    const end = start + match[0].length;
+
+                    // Patterns are matched as whole words, unless any part of words should be matched
+                    const startsAtWordBoundary = start === 0 || this.checkWordBoundary(PrefixTree.getCharBefore(text, start));
+                    const endsAtWordBoundary = end === text.length || this.checkWordBoundary(String.fromCodePoint(text.codePointAt(end)!));
+                    if (!settings.matchAnyPartsOfWords && (!startsAtWordBoundary || !endsAtWordBoundary)) {
+                        continue;
+                    }
+
+                    const key = `${start}:${end}`;
+                    let matchNode = matchNodes.get(key);
+                    if (!matchNode) {
+                        matchNode = new MatchNode();
+                        matchNode.start = start;
+                        matchNode.length = end - start;
+                        matchNode.value = match[0];
+                        matchNode.isAlias = true;
+                        matchNode.startsAtWordBoundary = startsAtWordBoundary;
+                        matchNode.isSubWord = !endsAtWordBoundary;
+                        matchNodes.set(key, matchNode);
                     }
+                    matchNode.files.add(pattern.file);
                 }
             }
+        }
+
+        return Array.from(matchNodes.values());
+    }
+
+    private static getCharBefore(text: string, index: number): string {
+        const isLowSurrogate = /[\udc00-\udfff]/.test(text[index - 1]);
+        return isLowSurrogate && index >= 2 ? text.slice(index - 2, index) : text[index - 1];
+    }
+
+    /**
+     * Searches the chars for the names in the tree.
+     * Names with formatting chars inside (e.g. "**Machine** Learning") are searched in a second pass without the formatting chars,
+     * if the text contains formatting chars.
+     */
+    private scan(
+        text: string,
+        chars: ScannedChar[],
+        root: PrefixNode,
+        excludedNote: TFile | null | undefined,
+        wholeWordsOnly: boolean,
+        settings: LinkerPluginSettings
+    ) {
+        if (this.dirtyRoots.has(root)) {
+            this.mapRootToMaxDepth.set(root, PrefixTree.buildAutomaton(root));
+            this.dirtyRoots.delete(root);
+        }
+
+        const input: ScanInput = { text, chars, boundaries: [], joinedChars: '', charOffsets: [0] };
+        const positions: number[] = [];
+        for (let i = 0; i < chars.length; i++) {
+            const { char } = chars[i];
+            input.boundaries.push(this.checkWordBoundary(char));
+            input.joinedChars += char;
+            input.charOffsets.push(input.joinedChars.length);
+            positions.push(i);
+        }
+        const matchNodes = this.scanPositions(input, positions, root, excludedNote, wholeWordsOnly, false, settings);
+        if (!PrefixTree.formattingCharPattern.test(input.joinedChars)) {
+            return matchNodes;
+        }
+
+        // Formatting chars (e.g. of **bold**, *italic* or ==highlighted== text) are skipped inside of a match
+        const unformattedPositions: number[] = [];
+        const formattingIndices: number[] = [];
+        for (let i = 0; i < chars.length; i++) {
+            if (PrefixTree.isFormattingChar(chars[i].char)) {
+                formattingIndices.push(unformattedPositions.length);
+            } else {
+                unformattedPositions.push(i);
+            }
+        }
 
-            // TODO: Ignore formatting (#59)
-            if (false) {
-                // Check if the current char is a formatting char, if so also add the current nodes
-                const isFormatting = PrefixTree.isFormattingChar(char);
-                if (isFormatting) {
-                    this._currentNodes.forEach((node) => {
-                        node.formattingDelta += 1;
-                    });
-                    newNodes.push(...this._currentNodes);
+        // Only the chars around the formatting chars are searched again, since the matches can not be longer than the longest name
+        const maxDepth = this.mapRootToMaxDepth.get(root) ?? 0;
+        let segmentStart = 0;
+        let segmentEnd = 0;
+        for (const index of [...formattingIndices, Infinity]) {
+            const start = Math.max(index - maxDepth, 0);
+            if (start > segmentEnd || index === Infinity) {
+                if (segmentEnd > segmentStart) {
+                    const segment = unformattedPositions.slice(segmentStart, segmentEnd);
+                    matchNodes.push(...this.scanPositions(input, segment, root, excludedNote, wholeWordsOnly, true, settings));
                 }
+                segmentStart = start;
             }
-        });
-        this._currentNodes = newNodes;
+            segmentEnd = Math.min(index + maxDepth, unformattedPositions.length);
+        }
+
+        return matchNodes;
+    }
+
+    /**
+     * Runs the automaton of the tree over the chars at the given positions. Every char is visited once,
+     * the names ending at a char are found by the output links of the current node.
+     */
+    private scanPositions(
+        input: ScanInput,
+        positions: number[],
+        root: PrefixNode,
+        excludedNote: TFile | null | undefined,
+        wholeWordsOnly: boolean,
+        onlyFormattedMatches: boolean,
+        settings: LinkerPluginSettings
+    ): MatchNode[] {
+        const { text, chars, boundaries } = input;
+        const matchNodes: MatchNode[] = [];
+        const matchSubWords = !wholeWordsOnly && (settings.matchAnyPartsOfWords || settings.matchBeginningOfWords);
+        const matchInsideOfWords = !wholeWordsOnly && (settings.matchAnyPartsOfWords || settings.matchEndOfWords);
+        // The names are indexed for the case sensitivity of the whole vault, a note can only make the matching stricter
+        const matchCase = settings.matchCaseSensitive && !this.settings.matchCaseSensitive;
+
+        let state = root;
+        for (let i = 0; i < positions.length; i++) {
+            const key = chars[positions[i]].char.toLowerCase();
+
+            // Follow the failure links until the char continues a name
+            while (state !== root && !state.children.has(key)) {
+                state = state.failure ?? root;
+            }
+            state = state.children.get(key) ?? root;
+
+            for (let node = state.hasFiles() ? state : state.output; node; node = node.output) {
+                const startPosition = positions[i - node.depth + 1];
+                const endPosition = positions[i] + 1;
+
+                // In the second pass, only the matches with skipped formatting chars are new
+                const formattingDelta = endPosition - startPosition - node.depth;
+                if (onlyFormattedMatches && formattingDelta === 0) {
+                    continue;
+                }
+
+                // Check if the match starts and ends at a word boundary
+                const startsAtWordBoundary = startPosition === 0 || boundaries[startPosition - 1];
+                const endsAtWordBoundary = endPosition >= chars.length || boundaries[endPosition];
+                if ((!startsAtWordBoundary && !matchInsideOfWords) || (!endsAtWordBoundary && !matchSubWords)) {
+                    continue;
+                }
+
+                // Check if we want to include this note based on the settings
+                if (!settings.matchAnyPartsOfWords) {
+                    if (settings.matchBeginningOfWords && !startsAtWordBoundary && settings.matchEndOfWords && !endsAtWordBoundary) {
+                        continue;
+                    }
+                }
+
+                // Case sensitive names only match with their exact spelling
+                // The skipped formatting chars are not part of the spelling
+                let spelling = '';
+                if ((node.caseSensitiveFiles?.size ?? 0) > 0 || matchCase) {
+                    spelling = input.joinedChars.slice(input.charOffsets[startPosition], input.charOffsets[endPosition]);
+                    if (formattingDelta > 0) {
+                        spelling = spelling.replace(PrefixTree.formattingCharsPattern, '');
+                    }
+                }
+                const files = node.getFiles(spelling, matchCase);
+                const { files: caseInsensitiveFiles, aliasFiles, acronymFiles, propertyFiles } = node;
+                for (const file of files) {
+                    if (excludedNote && file.path === excludedNote.path) {
+                        files.delete(file);
+                    }
+                }
+                if (files.size === 0) {
+                    continue;
+                }
+
+                const matchNode = new MatchNode();
+                matchNode.start = chars[startPosition].index;
+                matchNode.length = (endPosition < chars.length ? chars[endPosition].index : text.length) - matchNode.start;
+                matchNode.formattingDelta = formattingDelta;
+                matchNode.files = files;
+                node.subpaths?.forEach((subpath, file) => {
+                    if (files.has(file)) {
+                        matchNode.subpaths.set(file, subpath);
+                    }
+                });
+                matchNode.value = node.value;
+                matchNode.requiresCaseMatch = Array.from(files).every((file) => !caseInsensitiveFiles.has(file));
+                matchNode.isAlias = Array.from(files).every((file) => aliasFiles?.has(file));
+                matchNode.isAcronym = Array.from(files).every((file) => acronymFiles?.has(file));
+                const propertyNames = new Set(Array.from(files).map((file) => propertyFiles?.get(file)));
+                matchNode.propertyName = propertyNames.size === 1 ? propertyNames.values().next().value : undefined;
+                matchNode.startsAtWordBoundary = startsAtWordBoundary;
+                matchNode.isSubWord = !endsAtWordBoundary;
+
+                // Include skipped formatting chars, so that the markup stays balanced
+                if (!matchNode.balanceFormatting(text)) {
+                    continue;
+                }
+
+                matchNodes.push(matchNode);
+            }
+        }
+
+        return matchNodes;
+    }
+
+    /**
+     * Sets the failure and output links of all nodes of a tree (breadth first, so that the links of the shorter names are known).
+     * Returns the depth of the deepest node.
+     */
+    private static buildAutomaton(root: PrefixNode): number {
+        root.failure = undefined;
+        root.output = undefined;
+
+        const queue: PrefixNode[] = [];
+        for (const child of root.children.values()) {
+            child.failure = root;
+            child.output = undefined;
+            queue.push(child);
+        }
+
+        for (let i = 0; i < queue.length; i++) {
+            const node = queue[i];
+            for (const [char, child] of node.children) {
+                let failure = node.failure;
+                while (failure && !failure.children.has(char)) {
+                    failure = failure.failure;
+                }
+                child.failure = failure?.children.get(char) ?? root;
+                child.output = child.failure.hasFiles() ? child.failure : child.failure.output;
+                queue.push(child);
+            }
+        }
+
+        return queue.length > 0 ? queue[queue.length - 1].depth : 0;
+    }
+
+    /**
+     * Splits the text into chars. A final line break is added to finish matches at the end of the text.
+     */
+    static getTextChars(text: string): ScannedChar[] {
+        const chars: ScannedChar[] = [];
+        for (let i = 0; i <= text.length; i) {
+            // Do this to get unicode characters as whole chars and not only half of them
+            const char = i < text.length ? String.fromCodePoint(text.codePointAt(i)!) : '\n';
+            chars.push({ char, index: i });
+            i += char.length;
+        }
+        return chars;
+    }
+
+    static isSeparatorChar(char: string): boolean {
+        return /^[\s\-\u2010\u2011]$/.test(char);
+    }
+
+    /**
+     * Replaces all runs of spaces, hyphens and line breaks by a single space.
+     */
+    static normalizeSeparators(name: string): string {
+        return name.replace(/[\s\-\u2010\u2011]+/g, ' ');
+    }
+
+    /**
+     * Collapses every run of separator chars (spaces, hyphens and line breaks) in the text to a single space,
+     * so that e.g. "machine-learning" or "machine  learning" match "Machine Learning".
+     */
+    static collapseSeparatorChars(textChars: ScannedChar[]): ScannedChar[] {
+        const collapsedChars: ScannedChar[] = [];
+        let i = 0;
+        while (i < textChars.length) {
+            if (!PrefixTree.isSeparatorChar(textChars[i].char)) {
+                collapsedChars.push(textChars[i]);
+                i++;
+                continue;
+            }
+
+            let j = i;
+            while (j < textChars.length && PrefixTree.isSeparatorChar(textChars[j].char)) {
+                j++;
+            }
+
+            // A single line break inside of a paragraph is a separator,
+            // but not several line breaks between paragraphs or a line break in front of a list item
+            const run = textChars
+                .slice(i, j)
+                .map((textChar) => textChar.char)
+                .join('');
+            const lineBreak = run.indexOf('\n');
+            if (lineBreak === -1 || (run.indexOf('\n', lineBreak + 1) === -1 && !run.slice(lineBreak).includes('-'))) {
+                collapsedChars.push({ char: ' ', index: textChars[i].index });
+            } else {
+                collapsedChars.push(...textChars.slice(i, j));
+            }
+            i = j;
+        }
+        return collapsedChars;
+    }
+
+    // Letters that are not decomposed into a base letter and a diacritic
+    private static foldedLetters: Record<string, string> = {
+        ß: 'ss',
+        ẞ: 'SS',
+        æ: 'ae',
+        Æ: 'AE',
+        œ: 'oe',
+        Œ: 'OE',
+        ø: 'o',
+        Ø: 'O',
+        đ: 'd',
+        Đ: 'D',
+        ł: 'l',
+        Ł: 'L',
+    };
+
+    /**
+     * Removes diacritics and folds compatibility chars (e.g. full width letters), so that "Zürich" becomes "Zurich",
+     * "naïve" becomes "naive" and "Straße" becomes "Strasse". The case is kept.
+     */
+    static foldText(text: string): string {
+        return text
+            .normalize('NFKD')
+            .replace(/[\u0300-\u036f]/g, '')
+            .replace(/[ßẞæÆœŒøØđĐłŁ]/g, (char) => PrefixTree.foldedLetters[char])
+            .normalize('NFC');
+    }
+
+    /**
+     * Normalizes the text to the NFC form or folds it (see foldText).
+     * Every char is normalized together with its combining marks, the normalized chars get the index of the original char.
+     */
+    static normalizeTextChars(textChars: ScannedChar[], fold: boolean): ScannedChar[] {
+        const normalizedChars: ScannedChar[] = [];
+        let i = 0;
+        while (i < textChars.length) {
+            const { index } = textChars[i];
+            let cluster = textChars[i].char;
+            i++;
+            while (i < textChars.length && /\p{M}/u.test(textChars[i].char)) {
+                cluster += textChars[i].char;
+                i++;
+            }
+
+            const normalizedCluster = fold ? PrefixTree.foldText(cluster) : cluster.normalize('NFC');
+            for (const char of normalizedCluster) {
+                normalizedChars.push({ char, index });
+            }
+        }
+        return normalizedChars;
+    }
+
+    /**
+     * Replaces every word by its stem. All chars of a stem get the index of the first char of the word.
+     */
+    private getStemmedTextChars(textChars: ScannedChar[], stemmer: Stemmer): ScannedChar[] {
+        const stemmedChars: ScannedChar[] = [];
+        let word = '';
+        let wordStart = 0;
+
+        for (const textChar of textChars) {
+            if (this.checkWordBoundary(textChar.char)) {
+                if (word.length > 0) {
+                    for (const char of stemmer.stem(word)) {
+                        stemmedChars.push({ char, index: wordStart });
+                    }
+                }
+                word = '';
+                stemmedChars.push(textChar);
+            } else {
+                if (word.length === 0) {
+                    wordStart = textChar.index;
+                }
+                word += textChar.char;
+            }
+        }
+        return stemmedChars;
     }
 
-    static checkWordBoundary(char: string): boolean {
-        // , regexString: string
-        // const pattern = /[\/\n\t\r\s,.!?:"`´()\[\]'{}|~\p{Emoji_Presentation}\p{Extended_Pictographic}]/u;
+    static defaultWordBoundaryPattern = /[^\p{L}]/u;
+
+    /**
+     * Parses a word boundary regex given as `/pattern/flags` or as plain pattern.
+     * The regex is tested against single chars, so it must not match an empty string.
+     * Throws an error, if the regex is invalid.
+     */
+    static parseWordBoundaryRegex(regexString: string): RegExp {
+        regexString = regexString.trim();
+        if (regexString.length === 0) {
+            throw new Error('The word boundary regex is empty');
+        }
 
-        // let pattern = /[\t- !-/:-@\[-`{-~\p{Emoji_Presentation}\p{Extended_Pictographic}]/u;
+        let source = regexString;
+        let flags = 'u';
+        const parts = regexString.match(/^\/(.*)\/([a-z]*)$/);
+        if (parts) {
+            source = parts[1];
+            // Stateful flags would break the testing of single chars
+            flags = parts[2].replace(/[gy]/g, '');
+        }
 
+        let pattern: RegExp;
+        try {
+            pattern = new RegExp(source, flags);
+        } catch (e) {
+            throw new Error('Invalid regex: ' + (e instanceof Error ? e.message : regexString));
+        }
+
+        if (pattern.test('')) {
+            throw new Error('The word boundary regex must not match an empty string');
+        }
+        return pattern;
+    }
+
+    refreshWordBoundaryPattern() {
+        try {
+            this.wordBoundaryPattern = PrefixTree.parseWordBoundaryRegex(this.settings.wordBoundaryRegex);
+        } catch (e) {
+            console.warn('[VL LC] Invalid word boundary regex, using the default one', e);
+            this.wordBoundaryPattern = PrefixTree.defaultWordBoundaryPattern;
+        }
+    }
+
+    checkWordBoundary(char: string): boolean {
+        return PrefixTree.checkWordBoundary(char, this.wordBoundaryPattern);
+    }
+
+    static checkWordBoundary(char: string, pattern: RegExp = PrefixTree.defaultWordBoundaryPattern): boolean {
         // \p{L}: Any kind of letter from any language.
         // \p{Ll}: Lowercase letter.
         // \p{Lu}: Uppercase letter.
@@ -454,34 +1600,36 @@ export class PrefixTree {
         // \p{S}: Symbol (currency, math symbols, etc.).
         // \p{Z}: Separator (space, line breaks).
         // \p{C}: Other (control chars, unassigned, etc.).
-
-        // let pattern = /[\p{P}\p{Z}\p{S}\p{C}\p{Emoji_Presentation}\p{Extended_Pictographic}]/u;
-        let pattern = /[^\p{L}]/u;
-
-        // if (regexString) {
-        //     if (typeof regexString !== 'string') {
-        //         regexString = regexString.toString();
-
-        //     }
-        //     if (!regexString.startsWith('/')) {
-        //         regexString = '/' + regexString;
-        //     }
-        //     if (!regexString.endsWith('/')) {
-        //         regexString = regexString + '/';
-        //     }
-        //     const parts = regexString.match(/\/(.*)\/([a-z]*)\/?/);
-        //     if (!parts) {
-        //         throw new Error('Invalid regex: ' + regexString);
-        //     }
-        //     pattern = new RegExp(parts[1], parts[2]);
-        // }
-        // console.log('Checking word boundary', char, pattern);
         return pattern.test(char);
     }
 
+    /**
+     * Splits a text into the words, that are separated by the word boundary chars.
+     */
+    static tokenize(text: string, pattern: RegExp = PrefixTree.defaultWordBoundaryPattern): string[] {
+        const words: string[] = [];
+        let currentWord = '';
+        for (const char of text) {
+            if (PrefixTree.checkWordBoundary(char, pattern)) {
+                if (currentWord.length > 0) {
+                    words.push(currentWord);
+                }
+                currentWord = '';
+            } else {
+                currentWord += char;
+            }
+        }
+        if (currentWord.length > 0) {
+            words.push(currentWord);
+        }
+        return words;
+    }
+
+    private static formattingCharPattern = /[*_=~]/;
+    private static formattingCharsPattern = /[*_=~]/g;
+
     static isFormattingChar(char: string): boolean {
-        const pattern = /[^\p{L}\p{N}]/u;
-        return pattern.test(char);
+        return char === '*' || char === '_' || char === '=' || char === '~';
     }
 }
 
@@ -492,18 +1640,21 @@ export class CachedFile {
 export class LinkerCache {
     static instance: LinkerCache;
 
-    activeFilePath?: string;
     // files: Map<string, CachedFile> = new Map();
     // linkEntries: Map<string, CachedFile[]> = new Map();
     vault: Vault;
     cache: PrefixTree;
 
-    constructor(public app: App, public settings: LinkerPluginSettings) {
+    // Path of the stored index in the plugin folder, the index is not stored if it is undefined
+    indexPath?: string;
+    private storedRevision: number = 0;
+    private saveTimeout: ReturnType<typeof setTimeout> | null = null;
+
+    constructor(public app: App, public settings: LinkerPluginSettings, storedIndex?: StoredIndex | null) {
         const { vault } = app;
         this.vault = vault;
         // console.log("Creating LinkerCache");
-        this.cache = new PrefixTree(app, settings);
-        this.updateCache(true);
+        this.cache = new PrefixTree(app, settings, storedIndex);
     }
 
     static getInstance(app: App, settings: LinkerPluginSettings) {
@@ -513,28 +1664,111 @@ export class LinkerCache {
         return LinkerCache.instance;
     }
 
-    clearCache() {
+    /**
+     * Creates the instance with the index of the last session, so that only the changed files have to be indexed.
+     * The index is stored again after it has changed.
+     */
+    static async loadInstance(app: App, settings: LinkerPluginSettings, indexPath: string) {
+        if (!LinkerCache.instance) {
+            const storedIndex = await loadStoredIndex(app.vault.adapter, indexPath);
+            LinkerCache.instance = new LinkerCache(app, settings, storedIndex);
+        }
+        LinkerCache.instance.indexPath = indexPath;
+        LinkerCache.instance.scheduleSave();
+        return LinkerCache.instance;
+    }
+
+    /**
+     * Indexes all files again, if the settings of the index have changed.
+     */
+    rebuildCache() {
+        // The rules for link sources do not change the index, but are used by the linkers
+        this.cache.fetcher.refreshSettings();
+        if (getIndexSettingsHash(this.settings) === this.cache.settingsHash) {
+            return;
+        }
         this.cache.clear();
+        this.cache.updateTree();
+        this.scheduleSave();
     }
 
-    reset() {
-        this.cache.resetSearch();
+    /**
+     * Indexes the files that have changed since they were indexed, e.g. after the metadata cache has been resolved.
+     * Returns true, if the links in the views could have changed.
+     */
+    updateCache(): boolean {
+        const changed = this.cache.updateTree();
+        this.scheduleSave();
+        return changed;
     }
 
-    updateCache(force = false) {
-        // force = true;
-        if (!this.app?.workspace?.getActiveFile()) {
+    /**
+     * Updates the entries of a created or changed file.
+     * Returns true, if the links in the views could have changed.
+     */
+    updateFile(file: TAbstractFile): boolean {
+        if (!(file instanceof TFile) || file.extension !== 'md') {
+            return false;
+        }
+        const changed = this.cache.updateFile(file);
+        this.scheduleSave();
+        return changed;
+    }
+
+    /**
+     * Removes the entries of a deleted file.
+     * Returns true, if the links in the views could have changed.
+     */
+    removeFile(file: TAbstractFile): boolean {
+        const changed = this.cache.removeFile(file instanceof TFile ? file : file.path, file.path);
+        this.scheduleSave();
+        return changed;
+    }
+
+    /**
+     * Moves the entries of a renamed file to its new path, the new name is indexed as well.
+     * Returns true, if the links in the views could have changed.
+     */
+    renameFile(file: TAbstractFile, oldPath: string): boolean {
+        const removed = this.cache.removeFile(file instanceof TFile ? file : oldPath, oldPath);
+        const updated = this.updateFile(file);
+        this.scheduleSave();
+        return removed || updated;
+    }
+
+    /**
+     * Stores the index a few seconds after the last change, so that several changes are stored at once.
+     */
+    private scheduleSave() {
+        if (!this.indexPath || this.cache.revision === this.storedRevision) {
             return;
         }
+        if (this.saveTimeout !== null) {
+            clearTimeout(this.saveTimeout);
+        }
+        this.saveTimeout = setTimeout(() => this.saveIndex(), 5000);
+    }
 
-        // We only need to update cache if the active file has changed
-        const activeFile = this.app.workspace.getActiveFile()?.path;
-        if (activeFile === this.activeFilePath && !force) {
+    /**
+     * Stores the index in the plugin folder, if it has changed since it was stored.
+     * If the index can not be written, it is stored again with the next save.
+     */
+    async saveIndex() {
+        if (this.saveTimeout !== null) {
+            clearTimeout(this.saveTimeout);
+            this.saveTimeout = null;
+        }
+        if (!this.indexPath || this.cache.revision === this.storedRevision) {
             return;
         }
-        // console.log("Updating cache", force);
-        this.cache.updateTree(force ? undefined : [activeFile, this.activeFilePath]);
 
-        this.activeFilePath = activeFile;
+        // The index can change while it is written
+        const revision = this.cache.revision;
+        try {
+            await saveStoredIndex(this.app.vault.adapter, this.indexPath, this.cache.getStoredIndex());
+            this.storedRevision = revision;
+        } catch (e) {
+            console.error('[VL LC] Error saving the index', e);
+        }
     }
 }
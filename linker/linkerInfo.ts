@@ -1,5 +1,6 @@
 import { LinkerPluginSettings } from "main";
 import { App, getAllTags, TAbstractFile, TFile } from "obsidian";
+import { CompiledRule, compileRules, escapeRegExp, evaluateRules, RuleDecision } from "./rules";
 
 
 export class LinkerFileMetaInfo {
@@ -13,13 +14,19 @@ export class LinkerFileMetaInfo {
 
     includeAllFiles: boolean;
 
+    // Decisions of the rules, if the names of the file are linked and if links are created in the file
+    targetDecision: RuleDecision;
+    sourceDecision: RuleDecision;
+
     constructor(public fetcher: LinkerMetaInfoFetcher, file: TFile | TAbstractFile) {
         this.fetcher = fetcher;
         this.file = file instanceof TFile ? file : this.fetcher.app.vault.getFileByPath(file.path) as TFile;
 
         const settings = this.fetcher.settings;
 
-        this.tags = (getAllTags(this.fetcher.app.metadataCache.getFileCache(this.file)!!) ?? [])
+        const metadata = this.fetcher.app.metadataCache.getFileCache(this.file);
+        // Files without metadata (e.g. canvas files) have no tags
+        this.tags = (metadata ? getAllTags(metadata) ?? [] : [])
             .filter(tag => tag.trim().length > 0)
             .map(tag => tag.startsWith("#") ? tag.slice(1) : tag);
 
@@ -29,6 +36,21 @@ export class LinkerFileMetaInfo {
         this.includeAllFiles = fetcher.includeAllFiles;
         this.isInIncludedDir = fetcher.includeDirPattern.test(this.file.path); //fetcher.includeAllFiles || 
         this.isInExcludedDir = fetcher.excludeDirPattern.test(this.file.path);
+
+        this.targetDecision = evaluateRules(fetcher.rules, "target", this.file.path, this.tags, metadata?.frontmatter);
+        // Links inside of a note can be disabled by the note itself, before any rule applies
+        const disableProperty = settings.propertyNameToDisableLinking;
+        this.sourceDecision = metadata?.frontmatter?.[disableProperty] === true
+            ? { included: false, reason: `Property "${disableProperty}" of the note` }
+            : evaluateRules(fetcher.rules, "source", this.file.path, this.tags, metadata?.frontmatter);
+    }
+
+    get isLinkTarget(): boolean {
+        return this.targetDecision.included;
+    }
+
+    get isLinkSource(): boolean {
+        return this.sourceDecision.included;
     }
 }
 
@@ -36,6 +58,7 @@ export class LinkerMetaInfoFetcher {
     includeDirPattern: RegExp;
     excludeDirPattern: RegExp;
     includeAllFiles: boolean;
+    rules: CompiledRule[];
 
     constructor(public app: App, public settings: LinkerPluginSettings) {
         this.refreshSettings();
@@ -44,8 +67,9 @@ export class LinkerMetaInfoFetcher {
     refreshSettings(settings?: LinkerPluginSettings) {
         this.settings = settings ?? this.settings;
         this.includeAllFiles = this.settings.includeAllFiles;
-        this.includeDirPattern = new RegExp(`(^|\/)(${this.settings.linkerDirectories.join("|")})\/`);
-        this.excludeDirPattern = new RegExp(`(^|\/)(${this.settings.excludedDirectories.join("|")})\/`);
+        this.includeDirPattern = new RegExp(`(^|\/)(${this.settings.linkerDirectories.map(escapeRegExp).join("|")})\/`);
+        this.excludeDirPattern = new RegExp(`(^|\/)(${this.settings.excludedDirectories.map(escapeRegExp).join("|")})\/`);
+        this.rules = compileRules(this.settings);
     }
 
     getMetaInfo(file: TFile | TAbstractFile) {
@@ -1,11 +1,15 @@
 import { syntaxTree } from '@codemirror/language';
-import { RangeSetBuilder } from '@codemirror/state';
+import { ChangeSet, Range } from '@codemirror/state';
 import { Decoration, DecorationSet, EditorView, PluginSpec, PluginValue, ViewPlugin, ViewUpdate, WidgetType } from '@codemirror/view';
-import { App, MarkdownView, TFile, Vault } from 'obsidian';
+import { App, editorInfoField, MarkdownView, parseLinktext, TFile, Vault } from 'obsidian';
 
 import IntervalTree from '@flatten-js/interval-tree';
 import { LinkerPluginSettings } from 'main';
-import { ExternalUpdateManager, LinkerCache, PrefixTree } from './linkerCache';
+import { getCanvasFileOfElement } from './canvas';
+import { ExternalUpdateManager, LinkerCache } from './linkerCache';
+import { getEffectiveSettings } from './profiles';
+import { SourceNoteControls } from './sourceNote';
+import { rankFiles, RankingContext } from './ranking';
 import { VirtualMatch } from './virtualLinkDom';
 
 function isDescendant(parent: HTMLElement, child: HTMLElement, maxDepth: number = 10) {
@@ -21,7 +25,16 @@ function isDescendant(parent: HTMLElement, child: HTMLElement, maxDepth: number
     return false;
 }
 
-function getFileForEditorView(app: App, editorView: EditorView): TFile | null {
+/**
+ * Returns the note of the editor, which is not necessarily the active note (e.g. for hover popovers and pop-out windows).
+ */
+export function getFileForEditorView(app: App, editorView: EditorView): TFile | null {
+    // The editor knows its own note, also if it is not part of a workspace leaf
+    const fileInfo = editorView.state.field(editorInfoField, false);
+    if (fileInfo?.file) {
+        return fileInfo.file;
+    }
+
     const editorDom = editorView.dom;
     for (const leaf of app.workspace.getLeavesOfType("markdown")) {
         const view = leaf.view;
@@ -32,34 +45,134 @@ function getFileForEditorView(app: App, editorView: EditorView): TFile | null {
             }
         }
     }
-    return null;
+
+    // The editors of the text cards of a canvas belong to the canvas file
+    return getCanvasFileOfElement(app, editorDom);
 }
 
 export class VirtualLinkWidget extends WidgetType {
-    constructor(public match: VirtualMatch) {
+    // For matches spanning several lines, every line gets its own widget showing only a part of the text
+    constructor(public match: VirtualMatch, public partText?: string, public isLastPart: boolean = true) {
         super();
     }
     toDOM(view: EditorView): HTMLElement {
-        return this.match.getCompleteLinkElement();
+        const linkContent = this.partText !== undefined ? document.createTextNode(this.partText) : undefined;
+        return this.match.getCompleteLinkElement(linkContent, this.isLastPart);
+    }
+    destroy(dom: HTMLElement) {
+        this.match.releaseLinkElements(dom);
+    }
+}
+
+interface TextRange {
+    from: number;
+    to: number;
+}
+
+// A real link in the editor and its target, the path of the linked file with the linked section (e.g. "Glossary.md#Gradient Descent")
+interface ExplicitLink extends TextRange {
+    target: string;
+}
+
+interface CursorContext {
+    cursorPos: number;
+    lineStart: number;
+    lineEnd: number;
+    excludeLine: boolean;
+    fixIMEProblem: boolean;
+}
+
+function mergeRanges(ranges: TextRange[]): TextRange[] {
+    const merged: TextRange[] = [];
+    for (const range of [...ranges].sort((a, b) => a.from - b.from)) {
+        const last = merged[merged.length - 1];
+        if (last && range.from <= last.to) {
+            last.to = Math.max(last.to, range.to);
+        } else {
+            merged.push({ from: range.from, to: range.to });
+        }
     }
+    return merged;
+}
+
+function subtractRanges(ranges: TextRange[], removedRanges: TextRange[]): TextRange[] {
+    let remainingRanges = ranges.map(({ from, to }) => ({ from, to }));
+    for (const removed of removedRanges) {
+        const nextRanges: TextRange[] = [];
+        for (const range of remainingRanges) {
+            if (removed.to <= range.from || removed.from >= range.to) {
+                nextRanges.push(range);
+                continue;
+            }
+            if (range.from < removed.from) {
+                nextRanges.push({ from: range.from, to: removed.from });
+            }
+            if (removed.to < range.to) {
+                nextRanges.push({ from: removed.to, to: range.to });
+            }
+        }
+        remainingRanges = nextRanges;
+    }
+    return remainingRanges;
+}
+
+function overlapsRanges(range: TextRange, ranges: readonly TextRange[]): boolean {
+    return ranges.some((other) => range.from <= other.to && range.to >= other.from);
+}
+
+function isInsideRanges(range: TextRange, ranges: readonly TextRange[]): boolean {
+    return ranges.some((other) => range.from >= other.from && range.to <= other.to);
+}
+
+function haveSameRanges(ranges: (TextRange & { target?: string })[], otherRanges: (TextRange & { target?: string })[]): boolean {
+    const getKey = ({ from, to, target }: TextRange & { target?: string }) => `${from}:${to}:${target ?? ''}`;
+    const keys = new Set(ranges.map(getKey));
+    const otherKeys = new Set(otherRanges.map(getKey));
+    return keys.size === otherKeys.size && Array.from(keys).every((key) => otherKeys.has(key));
 }
 
 class AutoLinkerPlugin implements PluginValue {
-    decorations: DecorationSet;
+    decorations: DecorationSet = Decoration.none;
     app: App;
     vault: Vault;
     linkerCache: LinkerCache;
 
+    // Settings of the plugin, and the settings with the overrides of the profile of the current note
+    pluginSettings: LinkerPluginSettings;
     settings: LinkerPluginSettings;
+    // Frontmatter properties of the current note, that exclude notes or texts from being linked in it
+    sourceControls: SourceNoteControls;
 
     private lastCursorPos: number = 0;
-    private lastActiveFile: string = '';
+    private lastViewFile: string = '';
     private lastViewUpdate: ViewUpdate | null = null;
+    private lastViewIsActive: boolean = true;
+
+    // Results of the scanned text, they are mapped through the changes of the document,
+    // so that only the changed lines have to be scanned again
+    private scannedRanges: TextRange[] = [];
+    private candidateMatches: VirtualMatch[] = [];
+    private excludedRanges: TextRange[] = [];
+    private explicitLinks: ExplicitLink[] = [];
+    private nextMatchId: number = 0;
+
+    // The matches that remain after filtering, and the matches that are currently decorated
+    private matches: VirtualMatch[] = [];
+    private matchSet: Set<VirtualMatch> = new Set();
+    private decoratedMatches: Set<VirtualMatch> = new Set();
 
     viewUpdateDomToFileMap: Map<HTMLElement, TFile | undefined | null> = new Map();
 
+    private updateManager: ExternalUpdateManager;
+    private refreshCallback = () => {
+        if (this.lastViewUpdate) {
+            this.update(this.lastViewUpdate, true);
+        }
+    };
+
     constructor(view: EditorView, app: App, settings: LinkerPluginSettings, updateManager: ExternalUpdateManager) {
         this.app = app;
+        this.pluginSettings = settings;
         this.settings = settings;
 
         const { vault } = this.app;
@@ -67,13 +180,11 @@ class AutoLinkerPlugin implements PluginValue {
 
         this.linkerCache = LinkerCache.getInstance(app, this.settings);
 
-        this.decorations = this.buildDecorations(view);
+        this.buildDecorations(view);
 
-        updateManager.registerCallback(() => {
-            if (this.lastViewUpdate) {
-                this.update(this.lastViewUpdate, true);
-            }
-        });
+        // The decorations are built again, if the settings or the index have changed
+        this.updateManager = updateManager;
+        updateManager.registerViewCallback(this.refreshCallback);
     }
 
     update(update: ViewUpdate, force: boolean = false) {
@@ -96,234 +207,449 @@ class AutoLinkerPlugin implements PluginValue {
         }
 
         const cursorPos = update.view.state.selection.main.from;
-        const activeFile = this.app.workspace.getActiveFile()?.path;
-        const fileChanged = activeFile != this.lastActiveFile;
-
-        if (force || this.lastCursorPos != cursorPos || update.docChanged || fileChanged || update.viewportChanged) {
-            this.lastCursorPos = cursorPos;
-            this.linkerCache.updateCache(force);
-            this.decorations = this.buildDecorations(update.view, updateIsOnActiveView);
-            this.lastActiveFile = activeFile ?? '';
+        // The note of the editor changes, if another note is opened in its leaf
+        const viewFile = getFileForEditorView(this.app, update.view)?.path ?? '';
+        const fileChanged = viewFile != this.lastViewFile;
+        // The syntax tree is parsed in the background, the excluded ranges (e.g. code and links) can change without a change of the text
+        const treeParsed = !update.docChanged && syntaxTree(update.state) !== syntaxTree(update.startState);
+
+        if (force || fileChanged) {
+            // Settings or the index changed, so the whole visible text is scanned again
+            this.buildDecorations(update.view, updateIsOnActiveView);
+            this.lastViewFile = viewFile;
+        } else if (update.docChanged || update.viewportChanged || treeParsed) {
+            this.updateDecorations(update, updateIsOnActiveView, treeParsed);
+        } else if (this.lastCursorPos != cursorPos || this.lastViewIsActive != updateIsOnActiveView) {
+            this.toggleDecorationsNearCursor(update.view, this.lastCursorPos, updateIsOnActiveView);
         }
 
+        this.lastCursorPos = cursorPos;
+        this.lastViewIsActive = updateIsOnActiveView;
         this.lastViewUpdate = update;
     }
 
-    destroy() {}
+    destroy() {
+        this.updateManager.unregisterViewCallback(this.refreshCallback);
+    }
 
-    buildDecorations(view: EditorView, viewIsActive: boolean = true): DecorationSet {
-        const builder = new RangeSetBuilder<Decoration>();
+    /**
+     * Returns the file of the editor, if links should be added to it.
+     */
+    getLinkedFile(view: EditorView): TFile | null {
+        if (!this.pluginSettings.linkerActivated) {
+            return null;
+        }
+
+        const mappedFile = getFileForEditorView(this.app, view);
+        if (!mappedFile) {
+            return null;
+        }
 
-        if (!this.settings.linkerActivated) {
-            return builder.finish();
+        // Check if the file is excluded as link source by the rules (including the excluded folders for linking)
+        if (!this.linkerCache.cache.fetcher.getMetaInfo(mappedFile).isLinkSource) {
+            return null;
         }
 
+        return mappedFile;
+    }
 
-        const mappedFile = getFileForEditorView(this.app, view);
-        if (!mappedFile)
-            return builder.finish();
-
-        // Check if the file is inside excluded folders
-        const excludedFolders = this.settings.excludedDirectoriesForLinking;
-        if (excludedFolders.length > 0) {
-            const path = mappedFile?.parent?.path ?? this.app.workspace.getActiveFile()?.parent?.path;
-            if (excludedFolders.includes(path ?? '')) return builder.finish();
+    /**
+     * Scans the whole visible text and creates all decorations.
+     */
+    buildDecorations(view: EditorView, viewIsActive: boolean = true) {
+        this.scannedRanges = [];
+        this.candidateMatches = [];
+        this.excludedRanges = [];
+        this.explicitLinks = [];
+        this.decorations = Decoration.none;
+        this.decoratedMatches.clear();
+
+        // The profile of the note is resolved again, since the note or the settings could have changed
+        const mappedFile = this.getLinkedFile(view);
+        this.settings = getEffectiveSettings(this.app, this.pluginSettings, mappedFile);
+        this.sourceControls = new SourceNoteControls(this.app, this.pluginSettings, mappedFile);
+        if (mappedFile) {
+            this.scannedRanges = view.visibleRanges.map(({ from, to }) => ({ from, to }));
+            this.scanRanges(view, mappedFile, this.scannedRanges);
         }
 
-        // Set to exclude file that are explicitly linked
-        const explicitlyLinkedFiles = new Set<TFile>();
+        this.filterMatches();
+        this.refreshDecorations(view, this.matches, viewIsActive);
+    }
 
-        // Set to exclude files that are already linked by a virtual link
-        const alreadyLinkedFiles = new Set<TFile>();
+    /**
+     * Maps the decorations through the changes of the document and only scans the changed lines and the newly visible text.
+     * If the syntax tree has been parsed further, only the excluded ranges and the real links are collected again.
+     */
+    updateDecorations(update: ViewUpdate, viewIsActive: boolean, treeParsed: boolean = false) {
+        const view = update.view;
+        const mappedFile = this.getLinkedFile(view);
+        if (!mappedFile || AutoLinkerPlugin.changesCode(update)) {
+            this.buildDecorations(view, viewIsActive);
+            return;
+        }
 
-        for (let { from, to } of view.visibleRanges) {
-            this.linkerCache.reset();
-            const text = view.state.doc.sliceString(from, to);
+        const doc = view.state.doc;
+        const rangesToScan: TextRange[] = [];
+        if (update.docChanged) {
+            this.decorations = this.decorations.map(update.changes);
+            this.mapThroughChanges(update.changes);
 
-            // For every glossary file and its aliases we now search the text for occurrences
-            // const additions: { id: number; files: TFile[]; from: number; to: number; widget: WidgetType }[] = [];
-            let matches: VirtualMatch[] = [];
-            let id = 0;
-            // Iterate over every char in the text
-            for (let i = 0; i <= text.length; i) {
-                // Do this to get unicode characters as whole chars and not only half of them
-                const codePoint = text.codePointAt(i)!;
-                const char = i < text.length ? String.fromCodePoint(codePoint) : '\n';
-
-                // If we are at a word boundary, get the current fitting files
-                const isWordBoundary = PrefixTree.checkWordBoundary(char); // , this.settings.wordBoundaryRegex
-                if (this.settings.matchAnyPartsOfWords || this.settings.matchBeginningOfWords || isWordBoundary) {
-                    const currentNodes = this.linkerCache.cache.getCurrentMatchNodes(
-                        i,
-                        this.settings.excludeLinksToOwnNote ? mappedFile : null
-                    );
-
-                    if (currentNodes.length > 0) {
-                        // console.log('NODES', currentNodes);
-                        for (const node of currentNodes) {
-                            // Check if we want to include this note based on the settings
-                            if (!this.settings.matchAnyPartsOfWords) {
-                                if (
-                                    (this.settings.matchBeginningOfWords && !node.startsAtWordBoundary) &&
-                                    (this.settings.matchEndOfWords && !isWordBoundary)
-                                ) {
-                                    continue;
-                                }
-                            }
+            // The changed lines are scanned with enough context for the longest name
+            const context = this.linkerCache.cache.maxNameLength;
+            update.changes.iterChangedRanges((fromA, toA, fromB, toB) => {
+                rangesToScan.push({ from: Math.max(fromB - context, 0), to: Math.min(toB + context, doc.length) });
+            });
+        }
 
-                            const nFrom = node.start;
-                            const nTo = node.end;
-                            const name = text.slice(nFrom, nTo);
-                            const isAlias = node.isAlias;
+        // Scan the newly visible text and forget the results outside of the visible text
+        const visibleRanges = view.visibleRanges.map(({ from, to }) => ({ from, to }));
+        rangesToScan.push(...subtractRanges(visibleRanges, this.scannedRanges));
 
-                            const aFrom = from + nFrom;
-                            const aTo = from + nTo;
+        const lineRangesToScan = rangesToScan
+            .filter((range) => overlapsRanges(range, visibleRanges))
+            .map((range) => ({ from: doc.lineAt(range.from).from, to: doc.lineAt(range.to).to }));
+        this.scanRanges(view, mappedFile, mergeRanges(lineRangesToScan));
 
-                            // console.log("MATCH", name, aFrom, aTo, node.caseIsMatched, node.requiresCaseMatch)
+        this.scannedRanges = visibleRanges;
+        this.candidateMatches = this.candidateMatches.filter((match) => isInsideRanges(match, visibleRanges));
+        this.excludedRanges = this.excludedRanges.filter((range) => overlapsRanges(range, visibleRanges));
+        this.explicitLinks = this.explicitLinks.filter((link) => overlapsRanges(link, visibleRanges));
 
-                            matches.push(
-                                new VirtualMatch(id++, name, this.app, aFrom, aTo, Array.from(node.files), isAlias, !isWordBoundary, this.settings)
-                            );
-                        }
-                    }
-                }
+        // Nothing has to be decorated again, if only the syntax tree has been parsed further without changing the excluded ranges
+        const syntaxChanged = treeParsed && this.updateSyntaxRanges(view, mappedFile);
+        if (!update.docChanged && !update.viewportChanged && !syntaxChanged) {
+            return;
+        }
+
+        this.filterMatches();
+        this.refreshDecorations(view, [...this.decoratedMatches, ...this.matches], viewIsActive);
+    }
 
-                // Push the char to get the next nodes in the prefix tree
-                this.linkerCache.cache.pushChar(char);
+    /**
+     * Only the decorations in the lines of the previous and the current cursor position can change, if the cursor is moved.
+     */
+    toggleDecorationsNearCursor(view: EditorView, previousCursorPos: number, viewIsActive: boolean) {
+        if (viewIsActive != this.lastViewIsActive) {
+            this.refreshDecorations(view, this.matches, viewIsActive);
+            return;
+        }
+
+        const doc = view.state.doc;
+        const cursorLines = [doc.lineAt(Math.min(previousCursorPos, doc.length)), doc.lineAt(view.state.selection.main.from)];
+        const matchesNearCursor = this.matches.filter((match) => overlapsRanges(match, cursorLines));
+        this.refreshDecorations(view, matchesNearCursor, viewIsActive);
+    }
+
+    /**
+     * Code (e.g. a code fence) can change the syntax of the following lines, so the whole visible text has to be scanned again.
+     */
+    static changesCode(update: ViewUpdate): boolean {
+        let changesCode = false;
+        update.changes.iterChangedRanges((fromA, toA, fromB, toB) => {
+            const oldDoc = update.startState.doc;
+            const newDoc = update.state.doc;
+            const oldLines = oldDoc.sliceString(oldDoc.lineAt(fromA).from, oldDoc.lineAt(toA).to);
+            const newLines = newDoc.sliceString(newDoc.lineAt(fromB).from, newDoc.lineAt(toB).to);
+            if (/`|~~~/.test(oldLines) || /`|~~~/.test(newLines)) {
+                changesCode = true;
+            }
+        });
+        return changesCode;
+    }
 
-                i += char.length;
+    /**
+     * Moves the results of the previous scans to their new positions.
+     * Results touched by the changes are removed, since they have to be scanned again.
+     */
+    mapThroughChanges(changes: ChangeSet) {
+        const isTouched = ({ from, to }: TextRange) => changes.touchesRange(Math.max(from - 1, 0), Math.min(to + 1, changes.length)) !== false;
+        const mapRange = ({ from, to }: TextRange) => ({ from: changes.mapPos(from, 1), to: changes.mapPos(to, -1) });
+
+        this.candidateMatches = this.candidateMatches.filter((match) => !isTouched(match));
+        this.candidateMatches.forEach((match) => {
+            const { from, to } = mapRange(match);
+            match.moveTo(from, to);
+        });
+        this.excludedRanges = this.excludedRanges.filter((range) => !isTouched(range)).map(mapRange);
+        this.explicitLinks = this.explicitLinks.filter((link) => !isTouched(link)).map((link) => ({ ...mapRange(link), target: link.target }));
+        this.scannedRanges = this.scannedRanges.map(({ from, to }) => ({ from: changes.mapPos(from, -1), to: changes.mapPos(to, 1) }));
+    }
+
+    /**
+     * Collects the excluded ranges and the real links of the scanned ranges again, after the syntax tree has been parsed further.
+     * The matches do not depend on the syntax tree, so the text is not scanned again.
+     * Only the ranges whose excluded ranges or links have changed are updated, returns false if none has changed.
+     */
+    updateSyntaxRanges(view: EditorView, mappedFile: TFile): boolean {
+        let changed = false;
+        for (const range of this.scannedRanges) {
+            const syntaxRanges = this.getSyntaxRanges(view, mappedFile, range);
+            const previousExcludedRanges = this.excludedRanges.filter((excluded) => overlapsRanges(excluded, [range]));
+            const previousExplicitLinks = this.explicitLinks.filter((link) => overlapsRanges(link, [range]));
+
+            if (
+                haveSameRanges(previousExcludedRanges, syntaxRanges.excludedRanges) &&
+                haveSameRanges(previousExplicitLinks, syntaxRanges.explicitLinks)
+            ) {
+                continue;
             }
 
-            // Sort additions by position and files length
-            matches = VirtualMatch.sort(matches);
+            this.excludedRanges = this.excludedRanges.filter((excluded) => !overlapsRanges(excluded, [range]));
+            this.explicitLinks = this.explicitLinks.filter((link) => !overlapsRanges(link, [range]));
+            this.excludedRanges.push(...syntaxRanges.excludedRanges);
+            this.explicitLinks.push(...syntaxRanges.explicitLinks);
+            changed = true;
+        }
+        return changed;
+    }
+
+    /**
+     * Searches the ranges for matches, excluded syntax nodes and real links. Previous results inside of the ranges are replaced.
+     */
+    scanRanges(view: EditorView, mappedFile: TFile, ranges: TextRange[]) {
+        // The files of the matches are ranked for the note of the editor
+        const rankingContext = new RankingContext(this.app, this.settings, mappedFile);
 
-            // We want to exclude some syntax nodes from being decorated,
-            // such as code blocks and manually added links
-            const excludedIntervalTree = new IntervalTree();
-            const excludedTypes = ['codeblock', 'code-block', 'inline-code', 'internal-link', 'link', 'url', 'hashtag'];
+        for (let { from, to } of ranges) {
+            this.candidateMatches = this.candidateMatches.filter((match) => match.from < from || match.to > to);
+            this.excludedRanges = this.excludedRanges.filter((range) => !overlapsRanges(range, [{ from, to }]));
+            this.explicitLinks = this.explicitLinks.filter((link) => !overlapsRanges(link, [{ from, to }]));
 
-            if (!this.settings.includeHeaders) {
-                excludedTypes.push('header-');
+            const text = view.state.doc.sliceString(from, to);
+
+            // For every glossary file and its aliases we now search the text for occurrences
+            const matchNodes = this.linkerCache.cache.findMatchNodes(text, mappedFile, this.settings);
+            for (const node of matchNodes) {
+                const nFrom = node.start;
+                const nTo = node.end;
+                const name = text.slice(nFrom, nTo);
+                const isAlias = node.isAlias;
+                const files = this.sourceControls.filterFiles(name, Array.from(node.files));
+                if (files.length === 0) {
+                    continue;
+                }
+
+                const aFrom = from + nFrom;
+                const aTo = from + nTo;
+
+                const match = new VirtualMatch(
+                    this.nextMatchId++,
+                    name,
+                    this.app,
+                    aFrom,
+                    aTo,
+                    rankFiles(files, rankingContext),
+                    isAlias,
+                    node.isSubWord,
+                    this.settings,
+                    node.subpaths,
+                    node.isAcronym,
+                    node.propertyName
+                );
+                if (node.formattingDelta > 0) {
+                    match.displayText = name.replace(/[*_=~]+/g, '');
+                }
+                this.candidateMatches.push(match);
             }
 
-            // We also want to exclude links to files that are already linked by a real link
-            const app = this.app;
-            syntaxTree(view.state).iterate({
-                from,
-                to,
-                enter(node) {
-                    const type = node.type.name;
-                    const types = type.split('_');
-                    // const text = view.state.doc.sliceString(node.from, node.to);
-                    // console.log(text, node.type.name, types, node.from, node.to)
-
-                    for (const excludedType of excludedTypes) {
-                        if (type.contains(excludedType)) {
-                            excludedIntervalTree.insert([node.from, node.to]);
-
-                            // Types can be combined, e.g. internal-link_link-has-alias
-                            // These combined types are separated by underscores
-                            const isLinkIfHavingTypes = [['string', 'url'], 'hmd-internal-link', 'internal-link'];
-
-                            isLinkIfHavingTypes.forEach((t) => {
-                                const tList = Array.isArray(t) ? t : [t];
-
-                                if (tList.every((tt) => types.includes(tt))) {
-                                    const text = view.state.doc.sliceString(node.from, node.to);
-                                    const linkedFile = app.metadataCache.getFirstLinkpathDest(text, mappedFile?.path ?? '');
-                                    if (linkedFile) {
-                                        explicitlyLinkedFiles.add(linkedFile);
-                                    }
+            const syntaxRanges = this.getSyntaxRanges(view, mappedFile, { from, to });
+            this.excludedRanges.push(...syntaxRanges.excludedRanges);
+            this.explicitLinks.push(...syntaxRanges.explicitLinks);
+        }
+    }
+
+    /**
+     * Returns the syntax nodes of the range that are not decorated (e.g. code blocks and real links),
+     * and the real links with their targets.
+     */
+    getSyntaxRanges(
+        view: EditorView,
+        mappedFile: TFile,
+        { from, to }: TextRange
+    ): { excludedRanges: TextRange[]; explicitLinks: ExplicitLink[] } {
+        // We want to exclude some syntax nodes from being decorated,
+        // such as code blocks and manually added links
+        const excludedRanges: TextRange[] = [];
+        const explicitLinks: ExplicitLink[] = [];
+        const excludedTypes = ['codeblock', 'code-block', 'inline-code', 'internal-link', 'link', 'url', 'hashtag'];
+
+        if (!this.settings.includeHeaders) {
+            excludedTypes.push('header-');
+        }
+
+        // We also want to exclude links to files that are already linked by a real link
+        const app = this.app;
+        syntaxTree(view.state).iterate({
+            from,
+            to,
+            enter(node) {
+                const type = node.type.name;
+                const types = type.split('_');
+                // const text = view.state.doc.sliceString(node.from, node.to);
+                // console.log(text, node.type.name, types, node.from, node.to)
+
+                for (const excludedType of excludedTypes) {
+                    if (type.contains(excludedType)) {
+                        excludedRanges.push({ from: node.from, to: node.to });
+
+                        // Types can be combined, e.g. internal-link_link-has-alias
+                        // These combined types are separated by underscores
+                        const isLinkIfHavingTypes = [['string', 'url'], 'hmd-internal-link', 'internal-link'];
+
+                        isLinkIfHavingTypes.forEach((t) => {
+                            const tList = Array.isArray(t) ? t : [t];
+
+                            if (tList.every((tt) => types.includes(tt))) {
+                                const text = view.state.doc.sliceString(node.from, node.to);
+                                const { path, subpath } = parseLinktext(text);
+                                const linkedFile = app.metadataCache.getFirstLinkpathDest(path, mappedFile?.path ?? '');
+                                if (linkedFile) {
+                                    explicitLinks.push({ from: node.from, to: node.to, target: linkedFile.path + subpath });
                                 }
-                            });
-                        }
+                            }
+                        });
                     }
-                },
-            });
+                }
+            },
+        });
 
-            // Delete additions that links to already linked files
-            if (this.settings.excludeLinksToRealLinkedFiles) {
-                matches = VirtualMatch.filterAlreadyLinked(matches, explicitlyLinkedFiles);
-            }
+        return { excludedRanges, explicitLinks };
+    }
+
+    /**
+     * Sorts the found matches and removes overlapping, excluded and already linked matches.
+     */
+    filterMatches() {
+        // Sort additions by position and files length
+        let matches = VirtualMatch.sort(this.candidateMatches);
+
+        // Delete additions that links to already linked files
+        if (this.settings.excludeLinksToRealLinkedFiles) {
+            matches = VirtualMatch.filterAlreadyLinked(matches, new Set(this.explicitLinks.map((link) => link.target)));
+        }
+
+        const excludedIntervalTree = new IntervalTree();
+        this.excludedRanges.forEach(({ from, to }) => excludedIntervalTree.insert([from, to]));
 
-            // Delete additions that links to already linked files
-            if (this.settings.onlyLinkOnce) {
-                matches = VirtualMatch.filterAlreadyLinked(matches, alreadyLinkedFiles);
+        // Delete additions that overlap
+        // Additions are sorted by from position and after that by length, we want to keep longer additions
+        // If only the first occurrence should be linked, the later additions that link to the same files are deleted as well
+        this.matches = VirtualMatch.filterOverlapping(matches, this.settings.onlyLinkOnce, excludedIntervalTree);
+        this.matchSet = new Set(this.matches);
+    }
+
+    /**
+     * Adds the decorations of the given matches that should be shown, and removes the decorations of the other ones.
+     */
+    refreshDecorations(view: EditorView, matchesToCheck: VirtualMatch[], viewIsActive: boolean) {
+        const cursor = this.getCursorContext(view, viewIsActive);
+        const removedMatches = new Set<VirtualMatch>();
+        const addedDecorations: Range<Decoration>[] = [];
+
+        for (const match of matchesToCheck) {
+            const decorate = this.matchSet.has(match) && this.shouldDecorate(view, match, cursor);
+            if (decorate && !this.decoratedMatches.has(match)) {
+                this.decoratedMatches.add(match);
+                addedDecorations.push(...this.getDecorations(view, match));
+            } else if (!decorate && this.decoratedMatches.has(match)) {
+                this.decoratedMatches.delete(match);
+                removedMatches.add(match);
             }
+        }
 
-            // Delete additions that overlap
-            // Additions are sorted by from position and after that by length, we want to keep longer additions
-            matches = VirtualMatch.filterOverlapping(matches, this.settings.onlyLinkOnce, excludedIntervalTree);
-
-            // Store the files that are linked by a virtual link
-            matches.forEach((addition) => addition.files.forEach((f) => alreadyLinkedFiles.add(f)));
-
-            // Get the cursor position
-            const cursorPos = view.state.selection.main.from;
-
-            // Settings if we want to adapt links in the current line / fix IME problem
-            const excludeLine = viewIsActive && this.settings.excludeLinksInCurrentLine;
-            const fixIMEProblem = viewIsActive && this.settings.fixIMEProblem;
-            let needImeFix = false;
-
-            // Get the line start and end positions if we want to exclude links in the current line
-            // or if we want to fix the IME problem
-            const lineStart = view.state.doc.lineAt(cursorPos).from;
-            const lineEnd = view.state.doc.lineAt(cursorPos).to;
-
-            matches.forEach((addition) => {
-                const [from, to] = [addition.from, addition.to];
-                const cursorNearby = cursorPos >= from - 0 && cursorPos <= to + 0;
-
-                const additionIsInCurrentLine = from >= lineStart && to <= lineEnd;
-
-                if (fixIMEProblem) {
-                    needImeFix = true;
-                    if (additionIsInCurrentLine && cursorPos > to) {
-                        let gapString = view.state.sliceDoc(to, cursorPos);
-                        let strBeforeAdd = view.state.sliceDoc(lineStart, from);
-
-                        // Regex to check if a part of a word is at the line start, because IME problem only occurs at line start
-                        // Regex matches parts that:
-                        // - are completely empty or contain only whitespace.
-                        // - start with a hyphen followed by one or more spaces.
-                        // - start with 1 to 6 hash symbols followed by a space.
-                        // - start with one or more greater-than signs followed by optional whitespace.
-                        // - start with a hyphen followed by one or more spaces, then 1 to 6 hash symbols, and then one or more spaces.
-                        // - start with a greater-than sign followed by a space, an exclamation mark within square brackets containing word characters or hyphens, an optional plus or minus sign, and one or more spaces.
-                        const regAddInLineStart =
-                            /(^\s*$)|(^\s*- +$)|(^\s*#{1,6} $)|(^\s*>+ *$)|(^\s*- +#{1,6} +$)|(^\s*> \[![\w-]+\][+-]? +$)/;
-
-                        // check add is at line start
-                        if (!regAddInLineStart.test(strBeforeAdd)) {
-                            needImeFix = false;
-                        }
-                        // check the string between addition and cursorPos, check if it might be IME on.
-                        else {
-                            const regStrMayIMEon = /^[a-zA-Z]+[a-zA-Z' ]*[a-zA-Z]$|^[a-zA-Z]$/;
-                            if (!regStrMayIMEon.test(gapString) || /[' ]{2}/.test(gapString)) {
-                                needImeFix = false;
-                            }
-                        }
-                    } else {
+        if (removedMatches.size > 0 || addedDecorations.length > 0) {
+            this.decorations = this.decorations.update({
+                add: addedDecorations,
+                sort: true,
+                filter: (from, to, decoration) => !removedMatches.has((decoration.spec.widget as VirtualLinkWidget).match),
+            });
+        }
+    }
+
+    getCursorContext(view: EditorView, viewIsActive: boolean): CursorContext {
+        // Get the cursor position
+        const cursorPos = view.state.selection.main.from;
+
+        // Get the line start and end positions if we want to exclude links in the current line
+        // or if we want to fix the IME problem
+        const line = view.state.doc.lineAt(cursorPos);
+
+        // Settings if we want to adapt links in the current line / fix IME problem
+        return {
+            cursorPos,
+            lineStart: line.from,
+            lineEnd: line.to,
+            excludeLine: viewIsActive && this.settings.excludeLinksInCurrentLine,
+            fixIMEProblem: viewIsActive && this.settings.fixIMEProblem,
+        };
+    }
+
+    shouldDecorate(view: EditorView, addition: VirtualMatch, cursor: CursorContext): boolean {
+        const { cursorPos, lineStart, lineEnd } = cursor;
+        const [from, to] = [addition.from, addition.to];
+        const cursorNearby = cursorPos >= from - 0 && cursorPos <= to + 0;
+
+        const additionIsInCurrentLine = from >= lineStart && to <= lineEnd;
+
+        let needImeFix = false;
+        if (cursor.fixIMEProblem) {
+            needImeFix = true;
+            if (additionIsInCurrentLine && cursorPos > to) {
+                let gapString = view.state.sliceDoc(to, cursorPos);
+                let strBeforeAdd = view.state.sliceDoc(lineStart, from);
+
+                // Regex to check if a part of a word is at the line start, because IME problem only occurs at line start
+                // Regex matches parts that:
+                // - are completely empty or contain only whitespace.
+                // - start with a hyphen followed by one or more spaces.
+                // - start with 1 to 6 hash symbols followed by a space.
+                // - start with one or more greater-than signs followed by optional whitespace.
+                // - start with a hyphen followed by one or more spaces, then 1 to 6 hash symbols, and then one or more spaces.
+                // - start with a greater-than sign followed by a space, an exclamation mark within square brackets containing word characters or hyphens, an optional plus or minus sign, and one or more spaces.
+                const regAddInLineStart =
+                    /(^\s*$)|(^\s*- +$)|(^\s*#{1,6} $)|(^\s*>+ *$)|(^\s*- +#{1,6} +$)|(^\s*> \[![\w-]+\][+-]? +$)/;
+
+                // check add is at line start
+                if (!regAddInLineStart.test(strBeforeAdd)) {
+                    needImeFix = false;
+                }
+                // check the string between addition and cursorPos, check if it might be IME on.
+                else {
+                    const regStrMayIMEon = /^[a-zA-Z]+[a-zA-Z' ]*[a-zA-Z]$|^[a-zA-Z]$/;
+                    if (!regStrMayIMEon.test(gapString) || /[' ]{2}/.test(gapString)) {
                         needImeFix = false;
                     }
                 }
-
-                if (!cursorNearby && !needImeFix && !(excludeLine && additionIsInCurrentLine)) {
-                    builder.add(
-                        from,
-                        to,
-                        Decoration.replace({
-                            // widget: addition.widget,
-                            widget: new VirtualLinkWidget(addition),
-                        })
-                    );
-                }
-            });
+            } else {
+                needImeFix = false;
+            }
         }
 
-        return builder.finish();
+        return !cursorNearby && !needImeFix && !(cursor.excludeLine && additionIsInCurrentLine);
+    }
+
+    getDecorations(view: EditorView, addition: VirtualMatch): Range<Decoration>[] {
+        const decorations: Range<Decoration>[] = [];
+        const [from, to] = [addition.from, addition.to];
+
+        // Decorations of view plugins must not replace line breaks, so matches spanning several lines are split
+        const lines = view.state.sliceDoc(from, to).split('\n');
+        let partFrom = from;
+        lines.forEach((line, index) => {
+            const partTo = partFrom + line.length;
+            if (line.length > 0) {
+                const partText = lines.length > 1 ? (addition.displayText !== undefined ? line.replace(/[*_=~]+/g, '') : line) : undefined;
+                decorations.push(
+                    Decoration.replace({
+                        // widget: addition.widget,
+                        widget: new VirtualLinkWidget(addition, partText, index === lines.length - 1),
+                    }).range(partFrom, partTo)
+                );
+            }
+            partFrom = partTo + 1;
+        });
+        return decorations;
     }
 }
 
@@ -0,0 +1,83 @@
+import { LinkerPluginSettings } from 'main';
+import { App, getAllTags, TFile } from 'obsidian';
+
+import { CompiledRule } from './rules';
+
+/**
+ * Named set of settings, that override the settings for the notes in some folders or with some tags.
+ */
+export interface SettingsProfile {
+    name: string;
+    // Folders are matched by globs like the rules (e.g. "Snippets" or "**/Chinese"), tags include their nested tags
+    folders: string[];
+    tags: string[];
+    overrides: Partial<LinkerPluginSettings>;
+}
+
+export interface ProfileSetting {
+    key: keyof LinkerPluginSettings;
+    name: string;
+    type: 'toggle' | 'text';
+}
+
+// Settings that can be overridden by a profile, they are applied when the links of a note are created
+// Settings that change the index (e.g. the included files) are the same for all notes
+export const profileSettings: ProfileSetting[] = [
+    { key: 'matchCaseSensitive', name: 'Case sensitive (only stricter)', type: 'toggle' },
+    { key: 'matchAnyPartsOfWords', name: 'Match any part of a word', type: 'toggle' },
+    { key: 'matchBeginningOfWords', name: 'Match the beginning of words', type: 'toggle' },
+    { key: 'matchEndOfWords', name: 'Match the end of words', type: 'toggle' },
+    { key: 'suppressSuffixForSubWords', name: 'Suppress suffix for sub words', type: 'toggle' },
+    { key: 'onlyLinkOnce', name: 'Only link once', type: 'toggle' },
+    { key: 'excludeLinksToRealLinkedFiles', name: 'Exclude links to real linked files', type: 'toggle' },
+    { key: 'excludeLinksToOwnNote', name: 'Exclude self-links to the current note', type: 'toggle' },
+    { key: 'includeHeaders', name: 'Include headers', type: 'toggle' },
+    { key: 'excludeLinksInCurrentLine', name: 'Avoid linking in current line', type: 'toggle' },
+    { key: 'fixIMEProblem', name: 'Fix IME problem', type: 'toggle' },
+    { key: 'applyDefaultLinkStyling', name: 'Apply default link styling', type: 'toggle' },
+    { key: 'alwaysShowMultipleReferences', name: 'Always show multiple references', type: 'toggle' },
+    { key: 'virtualLinkSuffix', name: 'Virtual link suffix', type: 'text' },
+    { key: 'virtualLinkAliasSuffix', name: 'Virtual link suffix for aliases', type: 'text' },
+    { key: 'virtualLinkAcronymSuffix', name: 'Virtual link suffix for acronyms', type: 'text' },
+];
+
+/**
+ * Returns the first profile, that is assigned to a folder or a tag of the note.
+ */
+export function getProfileOfFile(app: App, settings: LinkerPluginSettings, file: TFile | null): SettingsProfile | null {
+    if (!file || settings.profiles.length === 0) {
+        return null;
+    }
+
+    const metadata = app.metadataCache.getFileCache(file);
+    const tags = (metadata ? getAllTags(metadata) ?? [] : []).map((tag) => (tag.startsWith('#') ? tag.slice(1) : tag));
+    const matches = (type: 'path' | 'tag', pattern: string) =>
+        pattern.trim().length > 0 && new CompiledRule({ type, pattern, include: true, scope: 'source' }, '').matches(file.path, tags, metadata?.frontmatter);
+
+    return (
+        settings.profiles.find(
+            (profile) => profile.folders.some((folder) => matches('path', folder)) || profile.tags.some((tag) => matches('tag', tag))
+        ) ?? null
+    );
+}
+
+/**
+ * Returns the settings for creating the links in a note, with the overrides of its profile and of its frontmatter.
+ */
+export function getEffectiveSettings(app: App, settings: LinkerPluginSettings, file: TFile | null): LinkerPluginSettings {
+    const profile = getProfileOfFile(app, settings, file);
+    const overrides: Partial<LinkerPluginSettings> = {};
+    for (const { key } of profileSettings) {
+        if (profile?.overrides[key] !== undefined) {
+            Object.assign(overrides, { [key]: profile.overrides[key] });
+        }
+    }
+
+    // The note itself can decide, if the same note is linked several times in it
+    const onlyLinkOnce = file ? app.metadataCache.getFileCache(file)?.frontmatter?.[settings.propertyNameToOnlyLinkOnce] : undefined;
+    if (typeof onlyLinkOnce === 'boolean') {
+        overrides.onlyLinkOnce = onlyLinkOnce;
+    }
+
+    return Object.keys(overrides).length > 0 ? { ...settings, ...overrides } : settings;
+}
@@ -0,0 +1,154 @@
+import { App, getAllTags, TFile } from 'obsidian';
+
+import { LinkerPluginSettings } from 'main';
+
+/**
+ * Information about the note containing the links, shared by the strategies while ranking the files of its matches.
+ */
+export class RankingContext {
+    private sourceTags?: Set<string>;
+    private backlinkCounts: Map<string, number> = new Map();
+
+    constructor(public app: App, public settings: LinkerPluginSettings, public sourceFile: TFile | null) { }
+
+    static getTags(app: App, file: TFile): Set<string> {
+        const tags = getAllTags(app.metadataCache.getFileCache(file) ?? {}) ?? [];
+        return new Set(tags.map((tag) => (tag.startsWith('#') ? tag.slice(1) : tag).toLowerCase()));
+    }
+
+    getSourceTags(): Set<string> {
+        if (!this.sourceTags) {
+            this.sourceTags = this.sourceFile ? RankingContext.getTags(this.app, this.sourceFile) : new Set();
+        }
+        return this.sourceTags;
+    }
+
+    /**
+     * Returns the number of notes with a real link to the file.
+     */
+    getBacklinkCount(file: TFile): number {
+        let count = this.backlinkCounts.get(file.path);
+        if (count === undefined) {
+            count = 0;
+            for (const links of Object.values(this.app.metadataCache.resolvedLinks)) {
+                if (links[file.path]) {
+                    count++;
+                }
+            }
+            this.backlinkCounts.set(file.path, count);
+        }
+        return count;
+    }
+}
+
+export interface RankingStrategy {
+    // Identifier of the strategy, used for the weights in the settings
+    id: string;
+    displayName: string;
+    description: string;
+    // Files with higher scores are ranked first, the scores are normalized over the files of a match
+    score(file: TFile, context: RankingContext): number;
+}
+
+/**
+ * Prefers files close to the source note, e.g. a note in the same folder over a note in another top level folder.
+ */
+export class FolderProximityStrategy implements RankingStrategy {
+    id = 'folder-proximity';
+    displayName = 'Folder proximity';
+    description = 'Notes in the folder of the current note, or in folders close to it, are preferred.';
+
+    score(file: TFile, context: RankingContext): number {
+        if (!context.sourceFile) {
+            return 0;
+        }
+
+        const sourceFolders = context.sourceFile.path.split('/').slice(0, -1);
+        const folders = file.path.split('/').slice(0, -1);
+        let sharedFolders = 0;
+        while (sharedFolders < sourceFolders.length && sharedFolders < folders.length && sourceFolders[sharedFolders] === folders[sharedFolders]) {
+            sharedFolders++;
+        }
+
+        // Number of folders between the two notes
+        const distance = sourceFolders.length - sharedFolders + (folders.length - sharedFolders);
+        return 1 / (1 + distance);
+    }
+}
+
+/**
+ * Uses the priority set in the frontmatter of a note, e.g. `linker-priority: 10`.
+ */
+export class PriorityPropertyStrategy implements RankingStrategy {
+    id = 'priority-property';
+    displayName = 'Priority property';
+    description = 'Notes with a higher number in their priority property are preferred.';
+
+    score(file: TFile, context: RankingContext): number {
+        const frontmatter = context.app.metadataCache.getFileCache(file)?.frontmatter;
+        const priority = parseFloat(frontmatter?.[context.settings.propertyNameToPriority]);
+        return isNaN(priority) ? 0 : priority;
+    }
+}
+
+export class SharedTagsStrategy implements RankingStrategy {
+    id = 'shared-tags';
+    displayName = 'Shared tags';
+    description = 'Notes sharing more tags with the current note are preferred.';
+
+    score(file: TFile, context: RankingContext): number {
+        const sourceTags = context.getSourceTags();
+        if (sourceTags.size === 0) {
+            return 0;
+        }
+        return Array.from(RankingContext.getTags(context.app, file)).filter((tag) => sourceTags.has(tag)).length;
+    }
+}
+
+export class BacklinkCountStrategy implements RankingStrategy {
+    id = 'backlinks';
+    displayName = 'Backlinks';
+    description = 'Notes that are linked by more notes with real links are preferred.';
+
+    score(file: TFile, context: RankingContext): number {
+        return context.getBacklinkCount(file);
+    }
+}
+
+export const rankingStrategies: RankingStrategy[] = [
+    new FolderProximityStrategy(),
+    new PriorityPropertyStrategy(),
+    new SharedTagsStrategy(),
+    new BacklinkCountStrategy(),
+];
+
+/**
+ * Sorts the files of a match by the weighted scores of the ranking strategies, the first file is the primary link.
+ * Files with the same score keep their order.
+ */
+export function rankFiles(files: TFile[], context: RankingContext): TFile[] {
+    if (files.length < 2) {
+        return files;
+    }
+
+    const totalScores = new Map<TFile, number>(files.map((file) => [file, 0]));
+    for (const strategy of rankingStrategies) {
+        const weight = context.settings.rankingWeights[strategy.id] ?? 0;
+        if (weight <= 0) {
+            continue;
+        }
+
+        // The scores are normalized to the range 0 to 1, so that the weights of the strategies are comparable
+        const scores = files.map((file) => strategy.score(file, context));
+        const min = Math.min(...scores);
+        const max = Math.max(...scores);
+        if (max === min) {
+            continue;
+        }
+        files.forEach((file, index) => {
+            totalScores.set(file, totalScores.get(file)! + (weight * (scores[index] - min)) / (max - min));
+        });
+    }
+
+    return Array.from(files).sort((a, b) => totalScores.get(b)! - totalScores.get(a)!);
+}
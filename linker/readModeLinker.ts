@@ -1,186 +1,247 @@
-import { App, getLinkpath, MarkdownPostProcessorContext, MarkdownRenderChild, TFile } from 'obsidian';
+import { App, MarkdownPostProcessorContext, MarkdownRenderChild, MarkdownSectionInformation, TFile } from 'obsidian';
 
 import { LinkerPluginSettings } from '../main';
-import { LinkerCache, PrefixTree } from './linkerCache';
+import { DefinitionTooltip } from './definitionTooltip';
+import { DocumentLinkState } from './documentLinks';
+import { getLinkSettingsHash } from './indexStorage';
+import { LinkerCache } from './linkerCache';
+import { getEffectiveSettings } from './profiles';
+import { SourceNoteControls } from './sourceNote';
+import { rankFiles, RankingContext } from './ranking';
 import { VirtualMatch } from './virtualLinkDom';
 
+// Nodes of a consecutive text
+type TextRunNode = Text | HTMLBRElement;
+
 export class GlossaryLinker extends MarkdownRenderChild {
     text: string;
     ctx: MarkdownPostProcessorContext;
     app: App;
+    // Settings of the plugin, and the settings with the overrides of the profile of the rendered note
+    pluginSettings: LinkerPluginSettings;
     settings: LinkerPluginSettings;
     linkerCache: LinkerCache;
+    rankingContext: RankingContext;
+    sourceControls: SourceNoteControls;
+    // Real links and first virtual links of the whole note, and the lines of the rendered section in it
+    documentState: DocumentLinkState;
+    sectionInfo: MarkdownSectionInformation | null;
+
+    // Inline formatting elements, whose text is matched together with the surrounding text
+    static formattingTags = ['STRONG', 'EM', 'B', 'I', 'MARK', 'DEL', 'S', 'U'];
 
     constructor(app: App, settings: LinkerPluginSettings, context: MarkdownPostProcessorContext, containerEl: HTMLElement) {
         super(containerEl);
+        this.pluginSettings = settings;
         this.settings = settings;
         this.app = app;
         this.ctx = context;
 
         this.linkerCache = LinkerCache.getInstance(app, settings);
 
-        // TODO: Fix this?
-        // If not called, sometimes (especially for lists) elements are added to the context after they already have been loaded
-        // within the parent element. This causes the already added links to be removed...?
+        // Without loading right away, elements (especially of lists) can be added to the context after they have been loaded
+        // within the parent element, which removes the links that have already been added
         this.load();
     }
 
-    getClosestLinkPath(glossaryName: string): TFile | null {
-        const destName = this.ctx.sourcePath.replace(/(.*).md/, '$1');
-        let currentDestName = destName;
-
-        let currentPath = this.app.metadataCache.getFirstLinkpathDest(getLinkpath(glossaryName), currentDestName);
-
-        if (currentPath == null) return null;
-
-        while (currentDestName.includes('/')) {
-            currentDestName = currentDestName.replace(/\/[^\/]*?$/, '');
-
-            const newPath = this.app.metadataCache.getFirstLinkpathDest(getLinkpath(glossaryName), currentDestName);
-
-            if ((newPath?.path?.length || 0) > currentPath?.path?.length) {
-                currentPath = newPath;
-                // console.log("Break at New path: ", currentPath);
-                break;
-            }
+    onload() {
+        if (!this.pluginSettings.linkerActivated) {
+            return;
         }
 
-        return currentPath;
-    }
-
-    onload() {
-        if (!this.settings.linkerActivated) {
+        // No links are created in notes that are excluded as link sources by the rules
+        const sourceFile = this.app.vault.getAbstractFileByPath(this.ctx.sourcePath);
+        if (sourceFile instanceof TFile && !this.linkerCache.cache.fetcher.getMetaInfo(sourceFile).isLinkSource) {
             return;
         }
+        this.settings = getEffectiveSettings(this.app, this.pluginSettings, sourceFile instanceof TFile ? sourceFile : null);
+        this.sourceControls = new SourceNoteControls(this.app, this.pluginSettings, sourceFile instanceof TFile ? sourceFile : null);
 
-        // return;
-        const tags = ['p', 'li', 'td', 'th', 'span', 'em', 'strong']; //"div"
+        const tags = ['p', 'li', 'td', 'th', 'span', 'em', 'strong'];
         if (this.settings.includeHeaders) {
             tags.push('h1', 'h2', 'h3', 'h4', 'h5', 'h6');
         }
 
-        // TODO: Onload is called on the divs separately, so this sets are not stored between divs
-        // Since divs can be rendered in arbitrary order, storing information about already linked files is not easy
-        // Maybe there is a good and performant solution to this problem
-        const linkedFiles = new Set<TFile>();
-        const explicitlyLinkedFiles = new Set<TFile>();
+        // The files of a match are ranked for the note that is rendered
+        this.rankingContext = new RankingContext(this.app, this.settings, sourceFile instanceof TFile ? sourceFile : null);
+
+        // Onload is called for each section of the note separately and in arbitrary order,
+        // so the real links and the first virtual links are determined for the whole note
+        this.sectionInfo = this.ctx.getSectionInfo(this.containerEl);
+        const stateKey = `${this.linkerCache.cache.revision}:${getLinkSettingsHash(this.settings)}`;
+        this.documentState = DocumentLinkState.get(this.app, this.ctx.sourcePath, this.sectionInfo, stateKey, this.settings, (text) =>
+            this.findMatches(text)
+        );
+
+        // Targets that are already linked in this section
+        const linkedTargets = new Set<string>();
+
+        // Text nodes that are already part of a processed text run
+        const visitedTextNodes = new Set<Node>();
 
         for (const tag of tags) {
-            // console.log("Tag: ", tag);
             const nodeList = this.containerEl.getElementsByTagName(tag);
-            const children = this.containerEl.children;
-            // if (nodeList.length === 0) continue;
-            // if (nodeList.length != 0) console.log(tag, nodeList.length);
             for (let index = 0; index <= nodeList.length; index++) {
                 const item = index == nodeList.length ? this.containerEl : nodeList.item(index)!;
 
-                for (let childNodeIndex = 0; childNodeIndex < item.childNodes.length; childNodeIndex++) {
-                    const childNode = item.childNodes[childNodeIndex];
-
-                    if (childNode.nodeType === Node.TEXT_NODE) {
-                        let text = childNode.textContent || '';
-                        if (text.length === 0) continue;
-
-                        this.linkerCache.reset();
-                        let matches: VirtualMatch[] = [];
-
-                        let id = 0;
-
-                        // Iterate over every char in the text
-                        for (let i = 0; i <= text.length; i) {
-                            // Do this to get unicode characters as whole chars and not only half of them
-                            const codePoint = text.codePointAt(i)!;
-                            const char = i < text.length ? String.fromCodePoint(codePoint) : '\n';
-
-                            // If we are at a word boundary, get the current fitting files
-                            const isWordBoundary = PrefixTree.checkWordBoundary(char); // , this.settings.wordBoundaryRegex
-                            if (this.settings.matchAnyPartsOfWords || this.settings.matchBeginningOfWords || isWordBoundary) {
-                                const currentNodes = this.linkerCache.cache.getCurrentMatchNodes(i);
-                                if (currentNodes.length > 0) {
-                                    currentNodes.forEach((node) => {
-                                        // Check if we want to include this note based on the settings
-                                        if (!this.settings.matchAnyPartsOfWords) {
-                                            if (
-                                                this.settings.matchBeginningOfWords &&
-                                                !node.startsAtWordBoundary &&
-                                                this.settings.matchEndOfWords &&
-                                                !isWordBoundary
-                                            ) {
-                                                return;
-                                            }
-                                        }
-
-                                        const nFrom = node.start;
-                                        const nTo = node.end;
-                                        const name = text.slice(nFrom, nTo);
-
-                                        // TODO: Handle multiple files
-                                        // const file = node.files.values().next().value;
-
-                                        matches.push(
-                                            new VirtualMatch(
-                                                id++,
-                                                name,
-                                                this.app,
-                                                nFrom,
-                                                nTo,
-                                                Array.from(node.files),
-                                                node.isAlias,
-                                                !isWordBoundary,
-                                                this.settings
-                                            )
-                                        );
-                                    });
-                                }
-                            }
-
-                            // Push the char to get the next nodes in the prefix tree
-                            this.linkerCache.cache.pushChar(char);
-                            i += char.length;
-                        }
-
-                        // Sort additions by from position
-                        matches = VirtualMatch.sort(matches);
-
-                        // Delete additions that links to already linked files
-                        if (this.settings.excludeLinksToRealLinkedFiles) {
-                            matches = VirtualMatch.filterAlreadyLinked(matches, explicitlyLinkedFiles);
-                        }
-
-                        // Delete additions that links to already linked files
-                        if (this.settings.onlyLinkOnce) {
-                            matches = VirtualMatch.filterAlreadyLinked(matches, linkedFiles);
-                        }
-                        // Delete additions that overlap
-                        // Additions are sorted by from position and after that by length, we want to keep longer additions
-                        matches = VirtualMatch.filterOverlapping(matches, this.settings.onlyLinkOnce);
-
-                        const parent = childNode.parentElement;
-                        let lastTo = 0;
-                        // console.log("Parent: ", parent);
-
-                        matches.forEach((match) => {
-                            match.files.forEach((f) => linkedFiles.add(f));
-
-                            const span = match.getCompleteLinkElement();
-
-                            if (match.from > 0) {
-                                parent?.insertBefore(document.createTextNode(text.slice(lastTo, match.from)), childNode);
-                            }
-
-                            parent?.insertBefore(span, childNode);
-                            lastTo = match.to;
-                        });
-
-                        const textLength = text.length;
-                        if (lastTo < textLength) {
-                            parent?.insertBefore(document.createTextNode(text.slice(lastTo)), childNode);
-                        }
-                        parent?.removeChild(childNode);
-                        childNodeIndex += 1;
+                // Skip the content of already created virtual links
+                if (item.closest('.virtual-link')) continue;
+
+                for (const textNodes of GlossaryLinker.getTextRuns(item, visitedTextNodes)) {
+                    this.linkTextRun(textNodes, linkedTargets);
+                }
+            }
+        }
+    }
+
+    onunload() {
+        DefinitionTooltip.hideInside(this.containerEl);
+    }
+
+    /**
+     * Collects the text nodes of an element in runs of consecutive text.
+     * Text inside of inline formatting elements (e.g. <strong>Machine</strong> Learning) belongs to the same run,
+     * so that names are also matched across formatting. Line breaks (<br>) are part of the run as well.
+     */
+    static getTextRuns(element: Element, visitedTextNodes: Set<Node>): TextRunNode[][] {
+        const runs: TextRunNode[][] = [];
+        let currentRun: TextRunNode[] = [];
+
+        const closeRun = () => {
+            if (currentRun.length > 0) {
+                runs.push(currentRun);
+            }
+            currentRun = [];
+        };
+
+        const collect = (node: Node) => {
+            for (const childNode of Array.from(node.childNodes)) {
+                if (childNode instanceof Text) {
+                    if (visitedTextNodes.has(childNode)) {
+                        closeRun();
+                        continue;
                     }
+                    visitedTextNodes.add(childNode);
+                    currentRun.push(childNode);
+                } else if (childNode instanceof HTMLBRElement) {
+                    currentRun.push(childNode);
+                } else if (childNode instanceof HTMLElement && GlossaryLinker.formattingTags.includes(childNode.tagName)) {
+                    collect(childNode);
+                } else {
+                    closeRun();
                 }
             }
+        };
+
+        collect(element);
+        closeRun();
+        return runs;
+    }
+
+    /**
+     * Returns the virtual links of a text of the rendered note, before removing the overlapping and already linked ones.
+     */
+    findMatches(text: string): VirtualMatch[] {
+        const matches: VirtualMatch[] = [];
+        let id = 0;
+
+        const matchNodes = this.linkerCache.cache.findMatchNodes(text, this.rankingContext.sourceFile, this.settings);
+        for (const node of matchNodes) {
+            const nFrom = node.start;
+            const nTo = node.end;
+            const name = text.slice(nFrom, nTo);
+
+            const files = this.sourceControls.filterFiles(name, Array.from(node.files));
+            if (files.length === 0) {
+                continue;
+            }
+
+            matches.push(
+                new VirtualMatch(
+                    id++,
+                    name,
+                    this.app,
+                    nFrom,
+                    nTo,
+                    rankFiles(files, this.rankingContext),
+                    node.isAlias,
+                    node.isSubWord,
+                    this.settings,
+                    node.subpaths,
+                    node.isAcronym,
+                    node.propertyName
+                )
+            );
+        }
+        return matches;
+    }
+
+    linkTextRun(textNodes: TextRunNode[], linkedTargets: Set<string>) {
+        const getText = (node: TextRunNode) => (node instanceof Text ? node.data : '\n');
+        const text = textNodes.map(getText).join('');
+        if (text.length === 0) return;
+
+        // Sort additions by from position
+        let matches = VirtualMatch.sort(this.findMatches(text));
+
+        // Delete additions that links to files that are linked by a real link in the note
+        if (this.settings.excludeLinksToRealLinkedFiles) {
+            matches = VirtualMatch.filterAlreadyLinked(matches, this.documentState.explicitlyLinkedTargets);
+        }
+
+        // Delete additions that links to already linked files, in this section or in another section of the note
+        if (this.settings.onlyLinkOnce) {
+            matches = VirtualMatch.filterAlreadyLinked(matches, linkedTargets);
+            matches = this.documentState.filterFirstLinks(matches, this.sectionInfo);
+        }
+        // Delete additions that overlap
+        // Additions are sorted by from position and after that by length, we want to keep longer additions
+        matches = VirtualMatch.filterOverlapping(matches, this.settings.onlyLinkOnce);
+
+        matches.forEach((match) => match.getLinkTargets().forEach((target) => linkedTargets.add(target)));
+
+        // Offsets of the text nodes inside of the text run
+        const nodeStarts: number[] = [];
+        let nodeStart = 0;
+        for (const node of textNodes) {
+            nodeStarts.push(nodeStart);
+            nodeStart += getText(node).length;
+        }
+
+        const getNodeIndex = (offset: number, isEnd: boolean) => {
+            for (let i = 0; i < textNodes.length; i++) {
+                const start = nodeStarts[i];
+                const end = start + getText(textNodes[i]).length;
+                if (isEnd ? offset > start && offset <= end : offset >= start && offset < end) {
+                    return i;
+                }
+            }
+            return textNodes.length - 1;
+        };
+
+        // Replace the matches from the last to the first one, so that the offsets of the preceding matches stay valid
+        for (const match of [...matches].reverse()) {
+            const range = document.createRange();
+
+            const startIndex = getNodeIndex(match.from, false);
+            const startNode = textNodes[startIndex];
+            if (startNode instanceof Text) {
+                range.setStart(startNode, match.from - nodeStarts[startIndex]);
+            } else {
+                range.setStartBefore(startNode);
+            }
+
+            const endIndex = getNodeIndex(match.to, true);
+            const endNode = textNodes[endIndex];
+            if (endNode instanceof Text) {
+                range.setEnd(endNode, Math.min(match.to - nodeStarts[endIndex], endNode.data.length));
+            } else {
+                range.setEndAfter(endNode);
+            }
+
+            // The extracted content keeps the formatting elements of the matched text
+            const content = range.extractContents();
+            range.insertNode(match.getCompleteLinkElement(content));
         }
     }
 }
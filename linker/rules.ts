@@ -0,0 +1,179 @@
+import { LinkerPluginSettings } from 'main';
+import { FrontMatterCache } from 'obsidian';
+
+export type RuleScope = 'target' | 'source';
+
+/**
+ * A rule of the settings, the first rule matching a note decides if the note is a link target or a link source.
+ */
+export interface LinkerRule {
+    // Condition of the rule: a glob of the path (e.g. "Archive/**"), a tag (e.g. "draft") or a property with a value (e.g. "status: draft")
+    type: 'path' | 'tag' | 'property';
+    pattern: string;
+    include: boolean;
+    // The notes are excluded or included as link targets (their names are linked), as link sources (links are created in them) or both
+    scope: RuleScope | 'both';
+}
+
+export interface RuleDecision {
+    included: boolean;
+    // Description of the rule that decided, or of the default if no rule matched
+    reason: string;
+}
+
+/**
+ * Escapes the special chars of a regular expression, e.g. for folder names like "C++" or "(Archive)".
+ */
+export function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Escapes the special chars of a glob, so that a folder name is matched literally.
+ */
+export function escapeGlob(text: string): string {
+    return text.replace(/[*?\\]/g, '\\$&');
+}
+
+/**
+ * Converts a glob to a regular expression of the paths it matches.
+ * "*" matches any chars except "/", "**" matches any chars and "?" a single char.
+ * A glob matching a folder matches all files inside of the folder and its subfolders, e.g. "Archive" or "**\/Drafts".
+ */
+export function globToRegExp(glob: string): RegExp {
+    glob = glob.trim().replace(/^\/+|\/+$/g, '');
+
+    let source = '';
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        if (char === '\\' && i + 1 < glob.length) {
+            source += escapeRegExp(glob[++i]);
+        } else if (char === '*' && glob[i + 1] === '*') {
+            // "**/" also matches no folder at all, e.g. "**/Drafts" matches "Drafts"
+            if (glob[i + 2] === '/') {
+                source += '(?:.*/)?';
+                i += 2;
+            } else {
+                source += '.*';
+                i++;
+            }
+        } else if (char === '*') {
+            source += '[^/]*';
+        } else if (char === '?') {
+            source += '[^/]';
+        } else {
+            source += escapeRegExp(char);
+        }
+    }
+    return new RegExp(`^${source}(?:/.*)?$`);
+}
+
+export class CompiledRule {
+    private pathPattern?: RegExp;
+    private propertyName: string = '';
+    private propertyValue: string = '';
+
+    constructor(public rule: LinkerRule, public description: string) {
+        if (rule.type === 'path') {
+            this.pathPattern = globToRegExp(rule.pattern);
+        } else if (rule.type === 'property') {
+            const separator = rule.pattern.indexOf(':');
+            this.propertyName = (separator >= 0 ? rule.pattern.slice(0, separator) : rule.pattern).trim();
+            this.propertyValue = separator >= 0 ? rule.pattern.slice(separator + 1).trim().toLowerCase() : '';
+        }
+    }
+
+    appliesTo(scope: RuleScope): boolean {
+        return this.rule.scope === 'both' || this.rule.scope === scope;
+    }
+
+    /**
+     * Returns true, if the condition of the rule matches the note. The tags are expected without "#".
+     */
+    matches(path: string, tags: string[], frontmatter: FrontMatterCache | undefined): boolean {
+        switch (this.rule.type) {
+            case 'path':
+                return this.pathPattern!.test(path);
+            case 'tag': {
+                // Nested tags are matched as well, e.g. "project" matches "project/active"
+                const tag = this.rule.pattern.trim().replace(/^#/, '').toLowerCase();
+                return tag.length > 0 && tags.some((t) => t.toLowerCase() === tag || t.toLowerCase().startsWith(`${tag}/`));
+            }
+            case 'property': {
+                const value = frontmatter?.[this.propertyName];
+                if (value === undefined || value === null) {
+                    return false;
+                }
+                // Without a value, the rule matches every note that has the property
+                if (this.propertyValue.length === 0) {
+                    return value !== false && value !== '';
+                }
+                const values: unknown[] = Array.isArray(value) ? value : [value];
+                return values.some((v) => String(v).trim().toLowerCase() === this.propertyValue);
+            }
+        }
+        return false;
+    }
+
+    static describe(rule: LinkerRule): string {
+        const action = rule.include ? 'Include' : 'Exclude';
+        const notes = rule.scope === 'target' ? 'link targets' : rule.scope === 'source' ? 'link sources' : 'notes';
+        const condition = rule.type === 'path' ? 'with path' : rule.type === 'tag' ? 'with tag' : 'with property';
+        return `${action} ${notes} ${condition} "${rule.pattern}"`;
+    }
+}
+
+/**
+ * Returns the rules of the settings, followed by the rules of the folder and tag settings.
+ * Since the first matching rule decides, the rules of the settings take precedence.
+ */
+export function compileRules(settings: LinkerPluginSettings): CompiledRule[] {
+    const rules = settings.rules
+        .filter((rule) => rule.pattern.trim().length > 0)
+        .map((rule, index) => new CompiledRule(rule, `Rule ${index + 1}: ${CompiledRule.describe(rule)}`));
+
+    const addRule = (rule: LinkerRule, setting: string) => {
+        if (rule.pattern.trim().length > 0) {
+            rules.push(new CompiledRule(rule, `${CompiledRule.describe(rule)} (setting "${setting}")`));
+        }
+    };
+
+    addRule({ type: 'tag', pattern: settings.tagToExcludeFile, include: false, scope: 'target' }, 'Tag to exclude a file');
+    addRule({ type: 'tag', pattern: settings.tagToIncludeFile, include: true, scope: 'target' }, 'Tag to include a file');
+
+    // The folders of the settings are matched at any depth, e.g. "Archive" also excludes "Projects/Archive"
+    for (const directory of settings.excludedDirectories) {
+        addRule({ type: 'path', pattern: `**/${escapeGlob(directory)}`, include: false, scope: 'target' }, 'Excluded directories');
+    }
+    if (!settings.includeAllFiles) {
+        for (const directory of settings.linkerDirectories) {
+            addRule({ type: 'path', pattern: `**/${escapeGlob(directory)}`, include: true, scope: 'target' }, 'Glossary linker directories');
+        }
+        addRule({ type: 'path', pattern: '**', include: false, scope: 'target' }, 'Include all files');
+    }
+
+    // The folders for generating links are matched from the root of the vault, including their subfolders
+    for (const directory of settings.excludedDirectoriesForLinking) {
+        addRule({ type: 'path', pattern: escapeGlob(directory), include: false, scope: 'source' }, 'Excluded directories for generating virtual links');
+    }
+
+    return rules;
+}
+
+/**
+ * Returns the decision of the first rule that matches the note in the scope. Notes are included, if no rule matches.
+ */
+export function evaluateRules(
+    rules: CompiledRule[],
+    scope: RuleScope,
+    path: string,
+    tags: string[],
+    frontmatter: FrontMatterCache | undefined
+): RuleDecision {
+    for (const rule of rules) {
+        if (rule.appliesTo(scope) && rule.matches(path, tags, frontmatter)) {
+            return { included: rule.rule.include, reason: rule.description };
+        }
+    }
+    return { included: true, reason: 'No rule matches, notes are included by default' };
+}
@@ -0,0 +1,66 @@
+import { LinkerPluginSettings } from 'main';
+import { App, parseLinktext, TFile } from 'obsidian';
+
+import { PrefixTree } from './linkerCache';
+
+/**
+ * Frontmatter properties of a note, that control the virtual links inside of the note itself
+ * (e.g. to exclude some notes or texts from being linked in a reference page).
+ */
+export class SourceNoteControls {
+    // Paths of the notes, that are not linked in the note
+    excludedTargetPaths: Set<string> = new Set();
+    // Texts that are not linked in the note, see normalizeText
+    excludedTexts: Set<string> = new Set();
+
+    constructor(app: App, settings: LinkerPluginSettings, file: TFile | null) {
+        if (!file) {
+            return;
+        }
+        const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter;
+
+        // The targets are links or names of notes, e.g. "[[Glossary]]" or "Glossary"
+        for (const target of PrefixTree.getStringList(frontmatter?.[settings.propertyNameToExcludeTargets])) {
+            const linktext = target.trim().replace(/^\[\[/, '').replace(/\]\]$/, '').split('|')[0];
+            const targetFile = app.metadataCache.getFirstLinkpathDest(parseLinktext(linktext).path, file.path);
+            if (targetFile) {
+                this.excludedTargetPaths.add(targetFile.path);
+            }
+        }
+
+        for (const text of PrefixTree.getStringList(frontmatter?.[settings.propertyNameToExcludeTextsHere])) {
+            this.excludedTexts.add(SourceNoteControls.normalizeText(text));
+        }
+    }
+
+    /**
+     * Returns the text in lower case, without formatting chars and with single spaces between the words.
+     */
+    static normalizeText(text: string): string {
+        return text.replace(/[*_=~]+/g, '').replace(/\s+/g, ' ').trim().toLowerCase();
+    }
+
+    /**
+     * Returns the files of a match, that may be linked in the note. No files are returned, if the matched text is excluded.
+     */
+    filterFiles(text: string, files: TFile[]): TFile[] {
+        if (this.excludedTexts.size > 0 && this.excludedTexts.has(SourceNoteControls.normalizeText(text))) {
+            return [];
+        }
+        return this.excludedTargetPaths.size > 0 ? files.filter((file) => !this.excludedTargetPaths.has(file.path)) : files;
+    }
+
+    /**
+     * Returns the values of the controlling properties of a note, to find out if the links inside of the note have to be created again.
+     */
+    static getKey(app: App, settings: LinkerPluginSettings, file: TFile): string {
+        const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter;
+        const values = [
+            settings.propertyNameToDisableLinking,
+            settings.propertyNameToOnlyLinkOnce,
+            settings.propertyNameToExcludeTargets,
+            settings.propertyNameToExcludeTextsHere,
+        ].map((property) => frontmatter?.[property] ?? null);
+        return values.every((value) => value === null) ? '' : JSON.stringify(values);
+    }
+}
@@ -0,0 +1,278 @@
+export interface Stemmer {
+    // Identifier of the language, used in the settings and in the frontmatter of notes
+    language: string;
+    displayName: string;
+    // Alternative identifiers, e.g. ISO codes
+    codes: string[];
+    stem(word: string): string;
+}
+
+/**
+ * Porter stemmer for english words.
+ * See https://tartarus.org/martin/PorterStemmer/
+ */
+export class EnglishStemmer implements Stemmer {
+    language = 'english';
+    displayName = 'English';
+    codes = ['en', 'eng'];
+
+    private static step2List: Record<string, string> = {
+        ational: 'ate',
+        tional: 'tion',
+        enci: 'ence',
+        anci: 'ance',
+        izer: 'ize',
+        bli: 'ble',
+        alli: 'al',
+        entli: 'ent',
+        eli: 'e',
+        ousli: 'ous',
+        ization: 'ize',
+        ation: 'ate',
+        ator: 'ate',
+        alism: 'al',
+        iveness: 'ive',
+        fulness: 'ful',
+        ousness: 'ous',
+        aliti: 'al',
+        iviti: 'ive',
+        biliti: 'ble',
+        logi: 'log',
+    };
+
+    private static step3List: Record<string, string> = {
+        icate: 'ic',
+        ative: '',
+        alize: 'al',
+        iciti: 'ic',
+        ical: 'ic',
+        ful: '',
+        ness: '',
+    };
+
+    // Consonant and vowel sequences
+    private static c = '[^aeiou]';
+    private static v = '[aeiouy]';
+    private static C = EnglishStemmer.c + '[^aeiouy]*';
+    private static V = EnglishStemmer.v + '[aeiou]*';
+
+    // [C](VC){m}[V] with m > 0, m = 1 and m > 1
+    private static mGreater0 = new RegExp('^(' + EnglishStemmer.C + ')?' + EnglishStemmer.V + EnglishStemmer.C);
+    private static mEquals1 = new RegExp('^(' + EnglishStemmer.C + ')?' + EnglishStemmer.V + EnglishStemmer.C + '(' + EnglishStemmer.V + ')?$');
+    private static mGreater1 = new RegExp(
+        '^(' + EnglishStemmer.C + ')?' + EnglishStemmer.V + EnglishStemmer.C + EnglishStemmer.V + EnglishStemmer.C
+    );
+    // Stem contains a vowel
+    private static hasVowel = new RegExp('^(' + EnglishStemmer.C + ')?' + EnglishStemmer.v);
+    // Stem ends with consonant-vowel-consonant, where the last consonant is not w, x or y
+    private static endsWithCVC = new RegExp('^' + EnglishStemmer.C + EnglishStemmer.v + '[^aeiouwxy]$');
+
+    stem(word: string): string {
+        let w = word.toLowerCase();
+        if (w.length < 3 || !/^[a-z]+$/.test(w)) {
+            return w;
+        }
+
+        // An initial y is treated as consonant
+        const startsWithY = w[0] === 'y';
+        if (startsWithY) {
+            w = 'Y' + w.slice(1);
+        }
+
+        let match: RegExpExecArray | null;
+
+        // Step 1a: plurals
+        if ((match = /^(.+?)(ss|i)es$/.exec(w))) {
+            w = match[1] + match[2];
+        } else if ((match = /^(.+?)([^s])s$/.exec(w))) {
+            w = match[1] + match[2];
+        }
+
+        // Step 1b: past tense and progressive forms
+        if ((match = /^(.+?)eed$/.exec(w))) {
+            if (EnglishStemmer.mGreater0.test(match[1])) {
+                w = w.slice(0, -1);
+            }
+        } else if ((match = /^(.+?)(ed|ing)$/.exec(w))) {
+            const stem = match[1];
+            if (EnglishStemmer.hasVowel.test(stem)) {
+                w = stem;
+                if (/(at|bl|iz)$/.test(w)) {
+                    w += 'e';
+                } else if (/([^aeiouylsz])\1$/.test(w)) {
+                    w = w.slice(0, -1);
+                } else if (EnglishStemmer.endsWithCVC.test(w)) {
+                    w += 'e';
+                }
+            }
+        }
+
+        // Step 1c: y to i
+        if ((match = /^(.+?)y$/.exec(w))) {
+            if (EnglishStemmer.hasVowel.test(match[1])) {
+                w = match[1] + 'i';
+            }
+        }
+
+        // Step 2: double suffixes
+        if (
+            (match =
+                /^(.+?)(ational|tional|enci|anci|izer|bli|alli|entli|eli|ousli|ization|ation|ator|alism|iveness|fulness|ousness|aliti|iviti|biliti|logi)$/.exec(
+                    w
+                ))
+        ) {
+            if (EnglishStemmer.mGreater0.test(match[1])) {
+                w = match[1] + EnglishStemmer.step2List[match[2]];
+            }
+        }
+
+        // Step 3: -ic-, -full, -ness etc.
+        if ((match = /^(.+?)(icate|ative|alize|iciti|ical|ful|ness)$/.exec(w))) {
+            if (EnglishStemmer.mGreater0.test(match[1])) {
+                w = match[1] + EnglishStemmer.step3List[match[2]];
+            }
+        }
+
+        // Step 4: -ant, -ence etc.
+        if ((match = /^(.+?)(al|ance|ence|er|ic|able|ible|ant|ement|ment|ent|ou|ism|ate|iti|ous|ive|ize)$/.exec(w))) {
+            if (EnglishStemmer.mGreater1.test(match[1])) {
+                w = match[1];
+            }
+        } else if ((match = /^(.+?)(s|t)(ion)$/.exec(w))) {
+            const stem = match[1] + match[2];
+            if (EnglishStemmer.mGreater1.test(stem)) {
+                w = stem;
+            }
+        }
+
+        // Step 5: final -e and -ll
+        if ((match = /^(.+?)e$/.exec(w))) {
+            const stem = match[1];
+            if (
+                EnglishStemmer.mGreater1.test(stem) ||
+                (EnglishStemmer.mEquals1.test(stem) && !EnglishStemmer.endsWithCVC.test(stem))
+            ) {
+                w = stem;
+            }
+        }
+        if (/ll$/.test(w) && EnglishStemmer.mGreater1.test(w)) {
+            w = w.slice(0, -1);
+        }
+
+        if (startsWithY) {
+            w = 'y' + w.slice(1);
+        }
+        return w;
+    }
+}
+
+/**
+ * Snowball stemmer for german words.
+ * See https://snowballstem.org/algorithms/german/stemmer.html
+ */
+export class GermanStemmer implements Stemmer {
+    language = 'german';
+    displayName = 'German';
+    codes = ['de', 'deu', 'ger', 'deutsch'];
+
+    private static isVowel(char: string | undefined): boolean {
+        return char !== undefined && 'aeiouyäöü'.includes(char);
+    }
+
+    // Start of the region after the first non-vowel following a vowel
+    private static getRegionStart(word: string, start: number): number {
+        for (let i = start + 1; i < word.length; i++) {
+            if (GermanStemmer.isVowel(word[i - 1]) && !GermanStemmer.isVowel(word[i])) {
+                return i + 1;
+            }
+        }
+        return word.length;
+    }
+
+    stem(word: string): string {
+        let w = word.toLowerCase().replace(/ß/g, 'ss');
+        if (w.length < 3 || !/^[a-zäöü]+$/.test(w)) {
+            return w;
+        }
+
+        // u and y between vowels are treated as consonants
+        w = w.replace(/([aeiouyäöü])u(?=[aeiouyäöü])/g, '$1U').replace(/([aeiouyäöü])y(?=[aeiouyäöü])/g, '$1Y');
+
+        // The region R1 has to start after at least 3 letters
+        const r1 = Math.max(GermanStemmer.getRegionStart(w, 0), 3);
+        const r2 = GermanStemmer.getRegionStart(w, r1);
+
+        let match: RegExpExecArray | null;
+
+        // Step 1
+        if ((match = /(ern|em|er|en|es|e|s)$/.exec(w)) && match.index >= r1) {
+            const rest = w.slice(0, match.index);
+            if (match[1] === 's') {
+                if (/[bdfghklmnrt]$/.test(rest)) {
+                    w = rest;
+                }
+            } else {
+                w = rest;
+                if (['e', 'en', 'es'].includes(match[1]) && /niss$/.test(w)) {
+                    w = w.slice(0, -1);
+                }
+            }
+        }
+
+        // Step 2
+        if ((match = /(est|en|er|st)$/.exec(w)) && match.index >= r1) {
+            const rest = w.slice(0, match.index);
+            if (match[1] !== 'st' || (rest.length >= 4 && /[bdfghklmnt]$/.test(rest))) {
+                w = rest;
+            }
+        }
+
+        // Step 3: derivational suffixes
+        if ((match = /(end|ung|isch|ig|ik|lich|heit|keit)$/.exec(w)) && match.index >= r2) {
+            const rest = w.slice(0, match.index);
+            switch (match[1]) {
+                case 'end':
+                case 'ung':
+                    w = rest;
+                    if (/ig$/.test(rest) && !/eig$/.test(rest) && rest.length - 2 >= r2) {
+                        w = rest.slice(0, -2);
+                    }
+                    break;
+                case 'ig':
+                case 'ik':
+                case 'isch':
+                    if (!/e$/.test(rest)) {
+                        w = rest;
+                    }
+                    break;
+                case 'lich':
+                case 'heit':
+                    w = rest;
+                    if (/(er|en)$/.test(rest) && rest.length - 2 >= r1) {
+                        w = rest.slice(0, -2);
+                    }
+                    break;
+                case 'keit':
+                    w = rest;
+                    if (/lich$/.test(rest) && rest.length - 4 >= r2) {
+                        w = rest.slice(0, -4);
+                    } else if (/ig$/.test(rest) && rest.length - 2 >= r2) {
+                        w = rest.slice(0, -2);
+                    }
+                    break;
+            }
+        }
+
+        return w.replace(/U/g, 'u').replace(/Y/g, 'y').replace(/ä/g, 'a').replace(/ö/g, 'o').replace(/ü/g, 'u');
+    }
+}
+
+export const stemmers: Stemmer[] = [new EnglishStemmer(), new GermanStemmer()];
+
+/**
+ * Returns the stemmer for a language name or code (e.g. "english" or "en").
+ */
+export function getStemmer(language: string): Stemmer | undefined {
+    const normalizedLanguage = language.trim().toLowerCase();
+    return stemmers.find((stemmer) => stemmer.language === normalizedLanguage || stemmer.codes.includes(normalizedLanguage));
+}
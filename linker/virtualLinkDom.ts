@@ -1,9 +1,21 @@
 import IntervalTree from '@flatten-js/interval-tree';
 import { convertToRealLink, LinkerPluginSettings } from 'main';
-import { App, TFile } from 'obsidian';
+import { App, HoverParent, HoverPopover, TFile } from 'obsidian';
 
+import { DefinitionTooltip } from './definitionTooltip';
+
+
+export class VirtualMatch implements HoverParent {
+    // Source of the hover events of the virtual links, the page preview can be configured for it in the settings of Obsidian
+    static hoverLinkSource = 'virtual-linker';
+
+    // Text shown in the link, if it differs from the origin text (e.g. without formatting chars)
+    displayText?: string;
+    // Created link elements, their positions are updated if the match is moved
+    private linkElements: HTMLElement[] = [];
+    // Page preview of a hovered link
+    hoverPopover: HoverPopover | null = null;
 
-export class VirtualMatch {
     constructor(
         public id: number,
         public originText: string,
@@ -13,18 +25,46 @@ export class VirtualMatch {
         public files: TFile[],
         public isAlias: boolean,
         public isSubWord: boolean,
-        public settings: LinkerPluginSettings
+        public settings: LinkerPluginSettings,
+        // Sections of the files, if the match is a heading or block of a file (e.g. "#Gradient Descent")
+        public subpaths: Map<TFile, string> = new Map(),
+        // The match is an acronym generated from a name of the files (e.g. "SLO" for "Service Level Objective")
+        public isAcronym: boolean = false,
+        // Name property of the files, if the match is a value of this property (e.g. "synonyms")
+        public propertyName?: string
     ) { }
 
+    /**
+     * Returns the link target of a file, including the section of the file if the match is a heading or block.
+     */
+    getLinkTarget(file: TFile): string {
+        return file.path + (this.subpaths.get(file) ?? '');
+    }
+
+    getLinkTargets(): string[] {
+        return this.files.map((file) => this.getLinkTarget(file));
+    }
+
     /////////////////////////////////////////////////
     // DOM methods
     /////////////////////////////////////////////////
 
-    getCompleteLinkElement() {
+    getCompleteLinkElement(linkContent?: Node, withSuffix: boolean = true) {
         const span = this.getLinkRootSpan();
-        const firstPath = this.files.length > 0 ? this.files[0].path : "";
-        const link = this.getLinkAnchorElement(this.originText, firstPath);
+        const firstTarget = this.files.length > 0 ? this.getLinkTarget(this.files[0]) : "";
+        const link = this.getLinkAnchorElement(this.displayText ?? this.originText, firstTarget);
+        if (linkContent) {
+            // Keep the (formatted) content of the matched text inside of the link
+            link.textContent = '';
+            link.appendChild(linkContent);
+        }
         span.appendChild(link);
+
+        // Only the last part of a link spanning several lines gets the suffix
+        if (!withSuffix) {
+            return span;
+        }
+
         if (this.files.length > 1) {
             if (!this.isSubWord) {
                 span.appendChild(this.getMultipleReferencesIndicatorSpan());
@@ -55,16 +95,65 @@ export class VirtualMatch {
         link.setAttribute('from', this.from.toString());
         link.setAttribute('to', this.to.toString());
         link.setAttribute('origin-text', this.originText);
+        const subpath = href.indexOf('#') >= 0 ? href.slice(href.indexOf('#')) : '';
+        if (subpath.length > 0) {
+            link.setAttribute('subpath', subpath);
+        }
         link.classList.add('internal-link', 'virtual-link-a');
+
+        // Hovering the link shows the page preview of the file or its section, like for real links
+        // The link text is the path of the file, so it is resolved without the source note
+        // The event is not passed on, so that the views of Obsidian do not show a second preview for the internal link
+        link.addEventListener('mouseover', (event) => {
+            event.stopPropagation();
+            this.app.workspace.trigger('hover-link', {
+                event,
+                source: VirtualMatch.hoverLinkSource,
+                hoverParent: this,
+                targetEl: link,
+                linktext: href,
+                sourcePath: '',
+            });
+        });
+
+        const file = this.files.find((file) => this.getLinkTarget(file) === href);
+        if (this.settings.showDefinitionTooltips && file) {
+            DefinitionTooltip.register(this.app, this.settings, file, link);
+        }
+
+        this.linkElements.push(link);
         return link;
     }
 
+    /**
+     * Moves the match to a new position, e.g. if text was inserted in front of it in the editor.
+     */
+    moveTo(from: number, to: number) {
+        this.from = from;
+        this.to = to;
+        for (const link of this.linkElements) {
+            link.setAttribute('from', from.toString());
+            link.setAttribute('to', to.toString());
+        }
+    }
+
+    /**
+     * Forgets the link elements inside of an element, that is removed from the DOM.
+     */
+    releaseLinkElements(element: HTMLElement) {
+        DefinitionTooltip.hideInside(element);
+        this.linkElements = this.linkElements.filter((link) => !element.contains(link));
+    }
+
     getLinkRootSpan() {
         const span = document.createElement('span');
         span.classList.add('glossary-entry', 'virtual-link', 'virtual-link-span');
         if (this.settings.applyDefaultLinkStyling) {
             span.classList.add('virtual-link-default');
         }
+        if (this.isAcronym) {
+            span.classList.add('virtual-link-acronym');
+        }
         return span;
     }
 
@@ -90,7 +179,7 @@ export class VirtualMatch {
                 linkText += '|';
             }
 
-            let linkHref = file.path;
+            let linkHref = this.getLinkTarget(file);
             const link = this.getLinkAnchorElement(linkText, linkHref);
             spanReferences.appendChild(link);
 
@@ -112,7 +201,13 @@ export class VirtualMatch {
     }
 
     getIconSpan() {
-        const suffix = this.isAlias ? this.settings.virtualLinkAliasSuffix : this.settings.virtualLinkSuffix;
+        let suffix = this.isAlias ? this.settings.virtualLinkAliasSuffix : this.settings.virtualLinkSuffix;
+        if (this.isAcronym) {
+            suffix = this.settings.virtualLinkAcronymSuffix;
+        } else if (this.propertyName !== undefined) {
+            const propertySuffix = this.settings.nameProperties.find((property) => property.name === this.propertyName)?.suffix ?? '';
+            suffix = propertySuffix.length > 0 ? propertySuffix : suffix;
+        }
         if ((suffix?.length ?? 0) > 0) {
             let icon = document.createElement('sup');
             icon.textContent = suffix;
@@ -140,12 +235,15 @@ export class VirtualMatch {
         return Array.from(matches).sort(VirtualMatch.compare);
     }
 
-    static filterAlreadyLinked(matches: VirtualMatch[], linkedFiles: Set<TFile>, mode: 'some' | 'every' = 'every'): VirtualMatch[] {
+    /**
+     * Removes the matches whose link targets are already linked, the targets are the paths of the files with their sections.
+     */
+    static filterAlreadyLinked(matches: VirtualMatch[], linkedTargets: Set<string>, mode: 'some' | 'every' = 'every'): VirtualMatch[] {
         return matches.filter((match) => {
             if (mode === 'every') {
-                return !match.files.every((file) => linkedFiles.has(file));
+                return !match.getLinkTargets().every((target) => linkedTargets.has(target));
             } else {
-                return !match.files.some((file) => linkedFiles.has(file));
+                return !match.getLinkTargets().some((target) => linkedTargets.has(target));
             }
         });
     }
@@ -179,15 +277,16 @@ export class VirtualMatch {
                 matchesToDelete.set(otherAddition.id, true);
             }
 
-            // Set all additions that link to the same file to be deleted
+            // Set all additions that link to the same file (or the same section of a file) to be deleted
             if (onlyLinkOnce) {
+                const targets = addition.getLinkTargets();
                 for (let j = i + 1; j < matches.length; j++) {
                     const otherAddition = matches[j];
                     if (matchesToDelete.has(otherAddition.id)) {
                         continue;
                     }
 
-                    if (otherAddition.files.every((f) => addition.files.contains(f))) {
+                    if (otherAddition.getLinkTargets().every((target) => targets.includes(target))) {
                         matchesToDelete.set(otherAddition.id, true);
                     }
                 }
@@ -1,9 +1,17 @@
-import { App, EditorPosition, MarkdownView, Menu, Plugin, PluginSettingTab, Setting, TAbstractFile, TFile, TFolder } from 'obsidian';
+import { EditorView } from '@codemirror/view';
+import { App, EditorPosition, Keymap, MarkdownView, Menu, normalizePath, Notice, Plugin, PluginSettingTab, Setting, TAbstractFile, TFile, TFolder } from 'obsidian';
 
 import { GlossaryLinker } from './linker/readModeLinker';
-import { liveLinkerPlugin } from './linker/liveLinker';
-import { ExternalUpdateManager, LinkerCache } from 'linker/linkerCache';
+import { VirtualMatch } from './linker/virtualLinkDom';
+import { getFileForEditorView, liveLinkerPlugin } from './linker/liveLinker';
+import { ExternalUpdateManager, LinkerCache, NameProperty, PrefixTree } from 'linker/linkerCache';
 import { LinkerMetaInfoFetcher } from 'linker/linkerInfo';
+import { rankingStrategies } from 'linker/ranking';
+import { LinkerRule } from 'linker/rules';
+import { getCanvasCardOfElement, getCanvasFileOfElement, replaceInCanvasCard } from 'linker/canvas';
+import { profileSettings, SettingsProfile } from 'linker/profiles';
+import { SourceNoteControls } from 'linker/sourceNote';
+import { stemmers } from 'linker/stemmers';
 
 import * as path from 'path';
 
@@ -20,6 +28,7 @@ export interface LinkerPluginSettings {
     excludedDirectoriesForLinking: string[];
     virtualLinkSuffix: string;
     virtualLinkAliasSuffix: string;
+    virtualLinkAcronymSuffix: string;
     useDefaultLinkStyleForConversion: boolean;
     defaultUseMarkdownLinks: boolean; // Otherwise wiki links
     defaultLinkFormat: 'shortest' | 'relative' | 'absolute';
@@ -44,11 +53,39 @@ export interface LinkerPluginSettings {
     includeAliases: boolean;
     alwaysShowMultipleReferences: boolean;
     clickIconConvertsToRealLink: boolean;
-    // wordBoundaryRegex: string;
+    wordBoundaryRegex: string;
+    stemmingLanguages: string[];
+    propertyNameToStemmingLanguage: string;
+    ignoreDiacritics: boolean;
+    propertyNameToMatchDiacritics: string;
+    propertyNameToPatterns: string;
+    normalizeSeparators: boolean;
+    includeHeadingTargets: boolean;
+    headingTargetLevels: number[];
+    includeBlockTargets: boolean;
+    sectionTargetDirectories: string[];
+    rankingWeights: Record<string, number>;
+    propertyNameToPriority: string;
+    generateAcronyms: boolean;
+    propertyNameToGenerateAcronyms: string;
+    excludedTexts: string[];
+    minimumNameLength: number;
+    rules: LinkerRule[];
+    profiles: SettingsProfile[];
+    propertyNameToDisableLinking: string;
+    propertyNameToOnlyLinkOnce: string;
+    propertyNameToExcludeTargets: string;
+    propertyNameToExcludeTextsHere: string;
+    propertyNameToScope: string;
+    nameProperties: NameProperty[];
+    propertyNameToTitle: string;
+    fallbackToFileNameAsTitle: boolean;
+    showDefinitionTooltips: boolean;
+    propertyNameToDefinition: string;
     // conversionFormat
 }
 
-const DEFAULT_SETTINGS: LinkerPluginSettings = {
+export const DEFAULT_SETTINGS: LinkerPluginSettings = {
     advancedSettings: false,
     linkerActivated: true,
     matchAnyPartsOfWords: false,
@@ -61,6 +98,7 @@ const DEFAULT_SETTINGS: LinkerPluginSettings = {
     excludedDirectoriesForLinking: [],
     virtualLinkSuffix: '🔗',
     virtualLinkAliasSuffix: '🔗',
+    virtualLinkAcronymSuffix: '🔤',
     useMarkdownLinks: false,
     linkFormat: 'shortest',
     defaultUseMarkdownLinks: false,
@@ -85,7 +123,35 @@ const DEFAULT_SETTINGS: LinkerPluginSettings = {
     includeAliases: true,
     alwaysShowMultipleReferences: false,
     clickIconConvertsToRealLink: false,
-    // wordBoundaryRegex: '/[\t- !-/:-@\[-`{-~\p{Emoji_Presentation}\p{Extended_Pictographic}]/u',
+    wordBoundaryRegex: '/[^\\p{L}]/u',
+    stemmingLanguages: [],
+    propertyNameToStemmingLanguage: 'linker-language',
+    ignoreDiacritics: false,
+    propertyNameToMatchDiacritics: 'linker-match-diacritics',
+    propertyNameToPatterns: 'linker-patterns',
+    normalizeSeparators: false,
+    includeHeadingTargets: false,
+    headingTargetLevels: [1, 2, 3, 4, 5, 6],
+    includeBlockTargets: false,
+    sectionTargetDirectories: [],
+    rankingWeights: { 'folder-proximity': 1, 'priority-property': 2, 'shared-tags': 1, backlinks: 0 },
+    propertyNameToPriority: 'linker-priority',
+    generateAcronyms: false,
+    propertyNameToGenerateAcronyms: 'linker-acronyms',
+    excludedTexts: [],
+    minimumNameLength: 0,
+    rules: [],
+    profiles: [],
+    propertyNameToDisableLinking: 'linker-disable',
+    propertyNameToOnlyLinkOnce: 'linker-only-link-once',
+    propertyNameToExcludeTargets: 'linker-excluded-targets',
+    propertyNameToExcludeTextsHere: 'linker-excluded-texts-here',
+    propertyNameToScope: 'linker-scope',
+    nameProperties: [],
+    propertyNameToTitle: '',
+    fallbackToFileNameAsTitle: true,
+    showDefinitionTooltips: false,
+    propertyNameToDefinition: 'definition',
 };
 
 export default class LinkerPlugin extends Plugin {
@@ -95,9 +161,58 @@ export default class LinkerPlugin extends Plugin {
     async onload() {
         await this.loadSettings();
 
+        // Load the index of the last session from the plugin folder, so that the vault does not have to be indexed at every start
+        const linkerCache = await LinkerCache.loadInstance(this.app, this.settings, normalizePath(`${this.manifest.dir}/index.json`));
+
         // Set callback to update the cache when the settings are changed
         this.updateManager.registerCallback(() => {
-            LinkerCache.getInstance(this.app, this.settings).clearCache();
+            LinkerCache.getInstance(this.app, this.settings).rebuildCache();
+        });
+
+        // Reading views are rendered again, if the settings or the index have changed
+        this.updateManager.registerViewCallback(() => {
+            for (const leaf of this.app.workspace.getLeavesOfType('markdown')) {
+                if (leaf.view instanceof MarkdownView && leaf.view.getMode() === 'preview') {
+                    leaf.view.previewMode.rerender(true);
+                }
+            }
+        });
+
+        // Keep the index up to date, so that new notes and aliases are linked without switching the note
+        const refreshViewsIfChanged = (changed: boolean) => {
+            if (changed) {
+                this.updateManager.refreshViews();
+            }
+        };
+        // The links inside of a note are created again, if its properties controlling them have changed
+        const sourceControlKeys = new Map<string, string>();
+        this.registerEvent(
+            this.app.metadataCache.on('changed', (file) => {
+                const key = SourceNoteControls.getKey(this.app, this.settings, file);
+                const controlsChanged = (sourceControlKeys.get(file.path) ?? '') !== key;
+                sourceControlKeys.set(file.path, key);
+                refreshViewsIfChanged(linkerCache.updateFile(file) || controlsChanged);
+            })
+        );
+        // All files are checked once, when the metadata of the vault has been resolved after the start
+        // Afterwards only the files reported by the events of the metadata cache and the vault are updated
+        let vaultResolved = false;
+        this.registerEvent(
+            this.app.metadataCache.on('resolved', () => {
+                if (!vaultResolved) {
+                    vaultResolved = true;
+                    refreshViewsIfChanged(linkerCache.updateCache());
+                }
+            })
+        );
+        this.app.workspace.onLayoutReady(() => {
+            // Files that have changed since the index was stored are indexed after the workspace is loaded
+            refreshViewsIfChanged(linkerCache.updateCache());
+
+            // The vault emits create events for all files while loading, they are indexed when the metadata cache is resolved
+            this.registerEvent(this.app.vault.on('create', (file) => refreshViewsIfChanged(linkerCache.updateFile(file))));
+            this.registerEvent(this.app.vault.on('delete', (file) => refreshViewsIfChanged(linkerCache.removeFile(file))));
+            this.registerEvent(this.app.vault.on('rename', (file, oldPath) => refreshViewsIfChanged(linkerCache.renameFile(file, oldPath))));
         });
 
         // Register the glossary linker for the read mode
@@ -105,9 +220,36 @@ export default class LinkerPlugin extends Plugin {
             context.addChild(new GlossaryLinker(this.app, this.settings, context, element));
         });
 
+        // Virtual links show the page preview of the linked files when hovered, like real links
+        this.registerHoverLinkSource(VirtualMatch.hoverLinkSource, { display: this.manifest.name, defaultMod: true });
+
         // Register the live linker for the live edit mode
         this.registerEditorExtension(liveLinkerPlugin(this.app, this.settings, this.updateManager));
 
+        // Virtual links in the text cards of a canvas are opened by the plugin, relative to the canvas file
+        const openCanvasLink = (event: MouseEvent) => {
+            const link = event.target instanceof HTMLElement ? event.target.closest('.virtual-link-a') : null;
+            const canvasFile = link instanceof HTMLElement && link.closest('.canvas-node') ? getCanvasFileOfElement(this.app, link) : null;
+            if (!link || !canvasFile) {
+                return;
+            }
+            event.preventDefault();
+            event.stopPropagation();
+            this.app.workspace.openLinkText(link.getAttribute('href') ?? '', canvasFile.path, Keymap.isModEvent(event));
+        };
+
+        // The clicks are handled in the main window and in every pop-out window
+        const documentsWithCanvasLinks = new WeakSet<Document>();
+        const registerCanvasLinks = (doc: Document) => {
+            if (!documentsWithCanvasLinks.has(doc)) {
+                documentsWithCanvasLinks.add(doc);
+                this.registerDomEvent(doc, 'click', openCanvasLink, { capture: true });
+            }
+        };
+        registerCanvasLinks(document);
+        this.registerEvent(this.app.workspace.on('window-open', (workspaceWindow, win) => registerCanvasLinks(win.document)));
+        this.app.workspace.onLayoutReady(() => this.app.workspace.iterateAllLeaves((leaf) => registerCanvasLinks(leaf.view.containerEl.doc)));
+
         // This adds a settings tab so the user can configure various aspects of the plugin
         this.addSettingTab(new LinkerSettingTab(this.app, this));
 
@@ -176,7 +318,8 @@ export default class LinkerPlugin extends Plugin {
                         from: parseInt(link.getAttribute('from') || '-1'),
                         to: parseInt(link.getAttribute('to') || '-1'),
                         text: link.getAttribute('origin-text') || '',
-                        href: link.getAttribute('href') || ''
+                        href: link.getAttribute('href') || '',
+                        subpath: link.getAttribute('subpath') ?? ''
                     }))
                     .filter(link => {
                         const linkFrom = editor.offsetToPos(link.from);
@@ -190,57 +333,19 @@ export default class LinkerPlugin extends Plugin {
                 // Process all links in a single operation
                 const replacements: { from: number, to: number, text: string }[] = [];
 
+                const sourcePath = view.file?.path ?? '';
                 for (const link of virtualLinks) {
-                    const targetFile = this.app.vault.getAbstractFileByPath(link.href);
-                    if (!(targetFile instanceof TFile)) continue;
-
-                    const activeFile = this.app.workspace.getActiveFile();
-                    const activeFilePath = activeFile?.path ?? '';
-
-                    let absolutePath = targetFile.path;
-                    let relativePath = path.relative(
-                        path.dirname(activeFilePath),
-                        path.dirname(absolutePath)
-                    ) + '/' + path.basename(absolutePath);
-                    relativePath = relativePath.replace(/\\/g, '/');
-
-                    const replacementPath = this.app.metadataCache.fileToLinktext(targetFile, activeFilePath);
-                    const lastPart = replacementPath.split('/').pop()!;
-                    const shortestFile = this.app.metadataCache.getFirstLinkpathDest(lastPart!, '');
-                    let shortestPath = shortestFile?.path === targetFile.path ? lastPart : absolutePath;
-
-                    // Remove .md extension if needed
-                    if (!replacementPath.endsWith('.md')) {
-                        if (absolutePath.endsWith('.md')) absolutePath = absolutePath.slice(0, -3);
-                        if (shortestPath.endsWith('.md')) shortestPath = shortestPath.slice(0, -3);
-                        if (relativePath.endsWith('.md')) relativePath = relativePath.slice(0, -3);
-                    }
+                    // The links of several files at the same position (the list of multiple references) are only converted once
+                    if (replacements.some((replacement) => replacement.from === link.from && replacement.to === link.to)) continue;
 
-                    const useMarkdownLinks = this.settings.useDefaultLinkStyleForConversion
-                        ? this.settings.defaultUseMarkdownLinks
-                        : this.settings.useMarkdownLinks;
-
-                    const linkFormat = this.settings.useDefaultLinkStyleForConversion
-                        ? this.settings.defaultLinkFormat
-                        : this.settings.linkFormat;
-
-                    let replacement = '';
-                    if (replacementPath === link.text && linkFormat === 'shortest') {
-                        replacement = `[[${replacementPath}]]`;
-                    } else {
-                        const path = linkFormat === 'shortest' ? shortestPath :
-                            linkFormat === 'relative' ? relativePath :
-                                absolutePath;
-
-                        replacement = useMarkdownLinks ?
-                            `[${link.text}](${path})` :
-                            `[[${path}|${link.text}]]`;
-                    }
+                    // The link target contains the linked section, e.g. "Glossary.md#Gradient Descent"
+                    const targetFile = this.app.vault.getAbstractFileByPath(link.href.slice(0, link.href.length - link.subpath.length));
+                    if (!(targetFile instanceof TFile)) continue;
 
                     replacements.push({
                         from: link.from,
                         to: link.to,
-                        text: replacement
+                        text: getRealLink(targetFile, link.text, link.subpath, sourcePath, this.app, this.settings)
                     });
                 }
 
@@ -329,7 +434,7 @@ export default class LinkerPlugin extends Plugin {
                 document.removeEventListener('contextmenu', contextMenuHandler);
             }
 
-            if (!metaInfo.excludeFile && (metaInfo.includeAllFiles || metaInfo.includeFile || metaInfo.isInIncludedDir)) {
+            if (metaInfo.isLinkTarget) {
                 // Item to exclude a virtual link from the linker
                 // This action adds the settings.tagToExcludeFile to the file
                 menu.addItem((item) => {
@@ -382,7 +487,7 @@ export default class LinkerPlugin extends Plugin {
                             }
                         });
                 });
-            } else if (!metaInfo.includeFile && (!metaInfo.includeAllFiles || metaInfo.excludeFile || metaInfo.isInExcludedDir)) {
+            } else {
                 //Item to include a virtual link from the linker
                 // This action adds the settings.tagToIncludeFile to the file
                 menu.addItem((item) => {
@@ -497,7 +602,9 @@ export default class LinkerPlugin extends Plugin {
         }
     }
 
-    onunload() { }
+    onunload() {
+        LinkerCache.instance?.saveIndex();
+    }
 
     async loadSettings() {
         this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
@@ -549,6 +656,27 @@ class LinkerSettingTab extends PluginSettingTab {
 
         new Setting(containerEl).setName('Matching behavior').setHeading();
 
+        // Property with the title of the notes, e.g. for notes named by an ID
+        new Setting(containerEl)
+            .setName('Property name of the title')
+            .setDesc(
+                'If set, the value of this frontmatter property (e.g. "title") is matched as the name of a note instead of its file name. Useful if the files are named by an ID like "202405011230".'
+            )
+            .addText((text) =>
+                text.setValue(this.plugin.settings.propertyNameToTitle).onChange(async (value) => {
+                    await this.plugin.updateSettings({ propertyNameToTitle: value.trim() });
+                })
+            );
+
+        new Setting(containerEl)
+            .setName('Use file name without title property')
+            .setDesc('If activated, the file name is matched for the notes without the title property. Otherwise these notes are only matched by their aliases.')
+            .addToggle((toggle) =>
+                toggle.setValue(this.plugin.settings.fallbackToFileNameAsTitle).onChange(async (value) => {
+                    await this.plugin.updateSettings({ fallbackToFileNameAsTitle: value });
+                })
+            );
+
         // Toggle to include aliases
         new Setting(containerEl)
             .setName('Include aliases')
@@ -560,6 +688,158 @@ class LinkerSettingTab extends PluginSettingTab {
                 })
             );
 
+        new Setting(containerEl)
+            .setName('Name properties')
+            .setDesc(
+                'The values of these frontmatter properties (e.g. "synonyms" or "abbreviation") are matched as names of the notes, without adding them to the aliases. Each property can have its own case sensitivity and suffix.'
+            );
+
+        const nameProperties = this.plugin.settings.nameProperties;
+        nameProperties.forEach((property) => {
+            new Setting(containerEl)
+                .addText((text) =>
+                    text
+                        .setPlaceholder('Property name')
+                        .setValue(property.name)
+                        .onChange(async (value) => {
+                            property.name = value.trim();
+                            await this.plugin.updateSettings();
+                        })
+                )
+                .addDropdown((dropdown) =>
+                    dropdown
+                        .addOption('default', 'Case like aliases')
+                        .addOption('match', 'Match case')
+                        .addOption('ignore', 'Ignore case')
+                        .setValue(property.caseMode)
+                        .onChange(async (value) => {
+                            property.caseMode = value as NameProperty['caseMode'];
+                            await this.plugin.updateSettings();
+                        })
+                )
+                .addText((text) =>
+                    text
+                        .setPlaceholder('Suffix')
+                        .setValue(property.suffix)
+                        .onChange(async (value) => {
+                            property.suffix = value;
+                            await this.plugin.updateSettings();
+                        })
+                )
+                .addExtraButton((button) =>
+                    button
+                        .setIcon('trash')
+                        .setTooltip('Delete')
+                        .onClick(async () => {
+                            await this.plugin.updateSettings({ nameProperties: nameProperties.filter((p) => p !== property) });
+                            this.display();
+                        })
+                );
+        });
+
+        new Setting(containerEl).addButton((button) =>
+            button.setButtonText('Add name property').onClick(async () => {
+                await this.plugin.updateSettings({ nameProperties: [...nameProperties, { name: '', caseMode: 'default', suffix: '' }] });
+                this.display();
+            })
+        );
+
+        // Toggle to generate acronyms
+        new Setting(containerEl)
+            .setName('Generate acronyms')
+            .setDesc(
+                'If activated, the acronyms of names with several words are matched as well (e.g. "SLO" for "Service Level Objective"). Acronyms are always matched case sensitive. A note can override this setting with the property "linker-acronyms: true / false".'
+            )
+            .addToggle((toggle) =>
+                toggle.setValue(this.plugin.settings.generateAcronyms).onChange(async (value) => {
+                    // console.log("Generate acronyms: " + value);
+                    await this.plugin.updateSettings({ generateAcronyms: value });
+                })
+            );
+
+        if (this.plugin.settings.advancedSettings) {
+            // Text setting for property name to generate acronyms
+            new Setting(containerEl)
+                .setName('Property name to generate acronyms')
+                .setDesc('By setting this property of a note to true or false, the acronyms of its names are generated or not, regardless of the setting above.')
+                .addText((text) =>
+                    text.setValue(this.plugin.settings.propertyNameToGenerateAcronyms).onChange(async (value) => {
+                        // console.log("New property name to generate acronyms: " + value);
+                        await this.plugin.updateSettings({ propertyNameToGenerateAcronyms: value });
+                    })
+                );
+        }
+
+        // Show the generated acronyms that are shared by several notes
+        const acronymCollisions = LinkerCache.getInstance(this.app, this.plugin.settings).cache.getAcronymCollisions();
+        if (acronymCollisions.size > 0) {
+            const acronymCollisionSetting = new Setting(containerEl)
+                .setName('Colliding acronyms')
+                .setDesc('The following generated acronyms are also names of other notes, their links point to several notes:');
+            const collisionList = acronymCollisionSetting.descEl.createEl('ul', { cls: 'linker-settings-error' });
+            acronymCollisions.forEach((paths, acronym) => {
+                collisionList.createEl('li', { text: `${acronym}: ${paths.join(', ')}` });
+            });
+        }
+
+        new Setting(containerEl)
+            .setName('Excluded texts')
+            .setDesc('Texts that are never linked, no matter which note they belong to (separated by new lines, case insensitive), e.g. "Note" or "Index".')
+            .addTextArea((text) => {
+                text.setPlaceholder('List of texts (separated by new line)')
+                    .setValue(this.plugin.settings.excludedTexts.join('\n'))
+                    .onChange(async (value) => {
+                        this.plugin.settings.excludedTexts = value
+                            .split('\n')
+                            .map((x) => x.trim())
+                            .filter((x) => x.length > 0);
+                        // console.log("New excluded texts: " + value, this.plugin.settings.excludedTexts);
+                        await this.plugin.updateSettings();
+                    });
+
+                // Set default size
+                text.inputEl.addClass('linker-settings-text-box');
+            });
+
+        // Import the excluded texts from a plain text file in the vault, with one text per line
+        let importPath = '';
+        new Setting(containerEl)
+            .setName('Import excluded texts')
+            .setDesc('Adds the lines of a text file in your vault to the excluded texts.')
+            .addText((text) =>
+                text.setPlaceholder('e.g. Meta/Stop list.md').onChange((value) => {
+                    importPath = value.trim();
+                })
+            )
+            .addButton((button) =>
+                button.setButtonText('Import').onClick(async () => {
+                    const file = this.app.vault.getAbstractFileByPath(normalizePath(importPath));
+                    if (!(file instanceof TFile)) {
+                        new Notice(`Virtual Linker: file "${importPath}" not found`);
+                        return;
+                    }
+                    const lines = (await this.app.vault.cachedRead(file))
+                        .split('\n')
+                        .map((x) => x.trim())
+                        .filter((x) => x.length > 0);
+                    const excludedTexts = Array.from(new Set([...this.plugin.settings.excludedTexts, ...lines]));
+                    new Notice(`Virtual Linker: imported ${excludedTexts.length - this.plugin.settings.excludedTexts.length} excluded texts`);
+                    await this.plugin.updateSettings({ excludedTexts });
+                    this.display();
+                })
+            );
+
+        new Setting(containerEl)
+            .setName('Minimum name length')
+            .setDesc('Names shorter than this number of characters are only linked, if they are matched case sensitive (0 to link names of any length).')
+            .addText((text) =>
+                text.setValue(this.plugin.settings.minimumNameLength.toString()).onChange(async (value) => {
+                    const newValue = parseInt(value);
+                    // console.log("New minimum name length: " + newValue);
+                    await this.plugin.updateSettings({ minimumNameLength: isNaN(newValue) || newValue < 0 ? 0 : newValue });
+                })
+            );
+
         if (this.plugin.settings.advancedSettings) {
             // Toggle to only link once
             new Setting(containerEl)
@@ -646,6 +926,157 @@ class LinkerSettingTab extends PluginSettingTab {
                 );
         }
 
+        // Toggle setting to treat different separators as equivalent
+        new Setting(containerEl)
+            .setName('Ignore differences in separators')
+            .setDesc(
+                'If activated, runs of spaces, hyphens and single line breaks are treated as one separator, e.g. "machine-learning" or a line break between "machine" and "learning" match "Machine Learning".'
+            )
+            .addToggle((toggle) =>
+                toggle.setValue(this.plugin.settings.normalizeSeparators).onChange(async (value) => {
+                    // console.log("Normalize separators: " + value);
+                    await this.plugin.updateSettings({ normalizeSeparators: value });
+                })
+            );
+
+        // Toggle setting to ignore diacritics
+        new Setting(containerEl)
+            .setName('Ignore diacritics')
+            .setDesc(
+                'If activated, accents and other diacritics as well as the width of chars are ignored, e.g. "Zurich" matches "Zürich" and "Strasse" matches "Straße".'
+            )
+            .addToggle((toggle) =>
+                toggle.setValue(this.plugin.settings.ignoreDiacritics).onChange(async (value) => {
+                    // console.log("Ignore diacritics: " + value);
+                    await this.plugin.updateSettings({ ignoreDiacritics: value });
+                    this.display();
+                })
+            );
+
+        if (this.plugin.settings.advancedSettings && this.plugin.settings.ignoreDiacritics) {
+            // Text setting for property name to match diacritics
+            new Setting(containerEl)
+                .setName('Property name to match diacritics')
+                .setDesc(
+                    'By adding this property to a note, containing a list of names, the linker will match the diacritics of the specified names / aliases exactly.'
+                )
+                .addText((text) =>
+                    text.setValue(this.plugin.settings.propertyNameToMatchDiacritics).onChange(async (value) => {
+                        // console.log("New property name to match diacritics: " + value);
+                        await this.plugin.updateSettings({ propertyNameToMatchDiacritics: value });
+                    })
+                );
+        }
+
+        // Toggle settings to match inflected forms for each language
+        for (const stemmer of stemmers) {
+            new Setting(containerEl)
+                .setName(`Match inflected forms (${stemmer.displayName})`)
+                .setDesc(
+                    `If activated, names and text are reduced to their ${stemmer.displayName} word stems, so that e.g. plural forms are matched as well. Inflected forms are only matched as whole words.`
+                )
+                .addToggle((toggle) =>
+                    toggle.setValue(this.plugin.settings.stemmingLanguages.includes(stemmer.language)).onChange(async (value) => {
+                        // console.log("Stemming " + stemmer.language + ": " + value);
+                        const stemmingLanguages = this.plugin.settings.stemmingLanguages.filter((language) => language !== stemmer.language);
+                        if (value) {
+                            stemmingLanguages.push(stemmer.language);
+                        }
+                        await this.plugin.updateSettings({ stemmingLanguages });
+                    })
+                );
+        }
+
+        if (this.plugin.settings.advancedSettings) {
+            // Text setting for property name to set the stemming languages
+            new Setting(containerEl)
+                .setName('Property name to set the languages of a note')
+                .setDesc(
+                    `By adding this property to a note, containing a language or a list of languages (${stemmers
+                        .map((stemmer) => stemmer.language)
+                        .join(', ')}), the inflected forms of the names of the note are matched in these languages. Set it to "none" to match only the exact names.`
+                )
+                .addText((text) =>
+                    text.setValue(this.plugin.settings.propertyNameToStemmingLanguage).onChange(async (value) => {
+                        // console.log("New property name to set the languages: " + value);
+                        await this.plugin.updateSettings({ propertyNameToStemmingLanguage: value });
+                    })
+                );
+        }
+
+        if (this.plugin.settings.advancedSettings) {
+            // Text setting for property name for regex patterns
+            new Setting(containerEl)
+                .setName('Property name for patterns')
+                .setDesc(
+                    'By adding this property to a note, containing a list of regular expressions (e.g. "RFC \\d+"), all texts matching these patterns are linked to the note.'
+                )
+                .addText((text) =>
+                    text.setValue(this.plugin.settings.propertyNameToPatterns).onChange(async (value) => {
+                        // console.log("New property name for patterns: " + value);
+                        await this.plugin.updateSettings({ propertyNameToPatterns: value });
+                    })
+                );
+        }
+
+        if (this.plugin.settings.advancedSettings) {
+            // Text settings for the property names, that control the links inside of a note
+            const sourceNoteProperties: [keyof LinkerPluginSettings, string, string][] = [
+                ['propertyNameToDisableLinking', 'Property name to disable links in a note', 'By setting this property of a note to true, no virtual links are created in the note.'],
+                [
+                    'propertyNameToOnlyLinkOnce',
+                    'Property name to only link once in a note',
+                    'By setting this property of a note to true or false, the setting "Only link once" is overridden for the note.',
+                ],
+                [
+                    'propertyNameToExcludeTargets',
+                    'Property name for excluded notes in a note',
+                    'By adding this property to a note, containing a list of notes (e.g. "[[Glossary]]"), these notes are not linked in the note.',
+                ],
+                [
+                    'propertyNameToExcludeTextsHere',
+                    'Property name for excluded texts in a note',
+                    'By adding this property to a note, containing a list of texts, these texts are not linked in the note.',
+                ],
+            ];
+            for (const [key, name, description] of sourceNoteProperties) {
+                new Setting(containerEl)
+                    .setName(name)
+                    .setDesc(description)
+                    .addText((text) =>
+                        text.setValue(this.plugin.settings[key] as string).onChange(async (value) => {
+                            // console.log("New property name: " + value);
+                            await this.plugin.updateSettings({ [key]: value });
+                        })
+                    );
+            }
+
+            // Text setting for the property name for the scope of a note
+            new Setting(containerEl)
+                .setName('Property name for the scope of a note')
+                .setDesc(
+                    'By adding this property to a note, containing a list of folders and tags (e.g. "Biology/**" or "#biology"), the note is only linked in notes inside of these folders or with these tags.'
+                )
+                .addText((text) =>
+                    text.setValue(this.plugin.settings.propertyNameToScope).onChange(async (value) => {
+                        // console.log("New property name for the scope: " + value);
+                        await this.plugin.updateSettings({ propertyNameToScope: value });
+                    })
+                );
+        }
+
+        // Show the patterns of notes that could not be compiled
+        const patternErrors = LinkerCache.getInstance(this.app, this.plugin.settings).cache.getPatternErrors();
+        if (patternErrors.size > 0) {
+            const patternErrorSetting = new Setting(containerEl)
+                .setName('Invalid patterns')
+                .setDesc('The following patterns are invalid and are ignored by the linker:');
+            const errorList = patternErrorSetting.descEl.createEl('ul', { cls: 'linker-settings-error' });
+            patternErrors.forEach((errors, path) => {
+                errors.forEach((error) => errorList.createEl('li', { text: `${path}: ${error}` }));
+            });
+        }
+
         if (this.plugin.settings.advancedSettings) {
             // Toggle setting to exclude links in the current line start for fixing IME
             new Setting(containerEl)
@@ -674,20 +1105,55 @@ class LinkerSettingTab extends PluginSettingTab {
                 );
 
             // Input for setting the word boundary regex
-            // new Setting(containerEl)
-            // 	.setName('Word boundary regex')
-            // 	.setDesc('The regex for the word boundary. This regex is used to find the beginning and end of a word. It is used to find the boundaries of the words to match. Defaults to /[\t- !-/:-@\[-`{-~\p{Emoji_Presentation}\p{Extended_Pictographic}]/u to catch most word boundaries.')
-            // 	.addText((text) =>
-            // 		text
-            // 			.setValue(this.plugin.settings.wordBoundaryRegex)
-            // 			.onChange(async (value) => {
-            // 				try {
-            // 					await this.plugin.updateSettings({ wordBoundaryRegex: value });
-            // 				} catch (e) {
-            // 					console.error('Invalid regex', e);
-            // 				}
-            // 			})
-            // 	);
+            let boundaryPreviewText = 'COVID-19 and Web3 aren\'t snake_case words.';
+            let boundaryPattern = PrefixTree.defaultWordBoundaryPattern;
+            try {
+                boundaryPattern = PrefixTree.parseWordBoundaryRegex(this.plugin.settings.wordBoundaryRegex);
+            } catch (e) {
+                console.warn(e);
+            }
+
+            const wordBoundarySetting = new Setting(containerEl)
+                .setName('Word boundary regex')
+                .setDesc(
+                    'The regex that matches a single char between two words (e.g. spaces and punctuation). All other chars are part of words. Defaults to /[^\\p{L}]/u, so that everything except letters is a word boundary. Use e.g. /[^\\p{L}\\p{N}_\']/u to keep digits, underscores and apostrophes inside of words.'
+                );
+            const boundaryErrorEl = wordBoundarySetting.descEl.createDiv({ cls: 'linker-settings-error' });
+            const boundaryPreviewSetting = new Setting(containerEl)
+                .setName('Word boundary preview')
+                .setDesc('Enter a sample sentence to see how it is split into words.');
+            const boundaryPreviewEl = boundaryPreviewSetting.descEl.createDiv({ cls: 'linker-boundary-preview' });
+
+            const renderBoundaryPreview = () => {
+                boundaryPreviewEl.empty();
+                for (const word of PrefixTree.tokenize(boundaryPreviewText, boundaryPattern)) {
+                    boundaryPreviewEl.createSpan({ cls: 'linker-boundary-token', text: word });
+                }
+            };
+
+            wordBoundarySetting.addText((text) =>
+                text.setValue(this.plugin.settings.wordBoundaryRegex).onChange(async (value) => {
+                    try {
+                        boundaryPattern = PrefixTree.parseWordBoundaryRegex(value);
+                    } catch (e) {
+                        // Invalid expressions are not stored
+                        boundaryErrorEl.setText(e instanceof Error ? e.message : String(e));
+                        text.inputEl.addClass('linker-settings-invalid');
+                        return;
+                    }
+                    boundaryErrorEl.setText('');
+                    text.inputEl.removeClass('linker-settings-invalid');
+                    renderBoundaryPreview();
+                    await this.plugin.updateSettings({ wordBoundaryRegex: value });
+                })
+            );
+            boundaryPreviewSetting.addText((text) =>
+                text.setValue(boundaryPreviewText).onChange((value) => {
+                    boundaryPreviewText = value;
+                    renderBoundaryPreview();
+                })
+            );
+            renderBoundaryPreview();
         }
 
         new Setting(containerEl).setName('Case sensitivity').setHeading();
@@ -866,6 +1332,63 @@ class LinkerSettingTab extends PluginSettingTab {
             }
         }
 
+        new Setting(containerEl)
+            .setName('Link to headings')
+            .setDesc('If toggled, the headings of the matched notes are linked to their sections as well, e.g. "Gradient Descent" links to "Glossary#Gradient Descent".')
+            .addToggle((toggle) =>
+                toggle.setValue(this.plugin.settings.includeHeadingTargets).onChange(async (value) => {
+                    await this.plugin.updateSettings({ includeHeadingTargets: value });
+                    this.display();
+                })
+            );
+
+        if (this.plugin.settings.includeHeadingTargets) {
+            new Setting(containerEl)
+                .setName('Heading levels')
+                .setDesc('Levels of the headings that are linked (separated by commas), e.g. "2, 3".')
+                .addText((text) =>
+                    text.setValue(this.plugin.settings.headingTargetLevels.join(', ')).onChange(async (value) => {
+                        const levels = value
+                            .split(',')
+                            .map((x) => parseInt(x.trim()))
+                            .filter((x) => x >= 1 && x <= 6);
+                        await this.plugin.updateSettings({ headingTargetLevels: levels });
+                    })
+                );
+        }
+
+        new Setting(containerEl)
+            .setName('Link to blocks')
+            .setDesc(
+                'If toggled, the block ids of the matched notes are linked to their blocks, e.g. "gradient descent" links to "Glossary#^gradient-descent". Hyphens and underscores in the ids are matched as spaces.'
+            )
+            .addToggle((toggle) =>
+                toggle.setValue(this.plugin.settings.includeBlockTargets).onChange(async (value) => {
+                    await this.plugin.updateSettings({ includeBlockTargets: value });
+                    this.display();
+                })
+            );
+
+        if (this.plugin.settings.includeHeadingTargets || this.plugin.settings.includeBlockTargets) {
+            new Setting(containerEl)
+                .setName('Directories for headings and blocks')
+                .setDesc('Only the headings and blocks of notes in these directories are linked (separated by new lines). If empty, the headings and blocks of all matched notes are linked.')
+                .addTextArea((text) => {
+                    text.setPlaceholder('List of directory names (separated by new line)')
+                        .setValue(this.plugin.settings.sectionTargetDirectories.join('\n'))
+                        .onChange(async (value) => {
+                            this.plugin.settings.sectionTargetDirectories = value
+                                .split('\n')
+                                .map((x) => x.trim())
+                                .filter((x) => x.length > 0);
+                            await this.plugin.updateSettings();
+                        });
+
+                    // Set default size
+                    text.inputEl.addClass('linker-settings-text-box');
+                });
+        }
+
         if (this.plugin.settings.advancedSettings) {
             // Text setting for tag to include file
             new Setting(containerEl)
@@ -928,6 +1451,266 @@ class LinkerSettingTab extends PluginSettingTab {
                 });
         }
 
+        new Setting(containerEl)
+            .setName('Rules')
+            .setDesc(
+                'Rules decide if notes are link targets (their names are linked) or link sources (links are created in them). The first matching rule decides, before the folder and tag settings above. Paths are matched by globs, e.g. "Archive/**" or "**/Drafts", properties by their value, e.g. "status: draft".'
+            )
+            .setHeading();
+
+        const rules = this.plugin.settings.rules;
+        rules.forEach((rule, index) => {
+            new Setting(containerEl)
+                .setName(`Rule ${index + 1}`)
+                .addDropdown((dropdown) =>
+                    dropdown
+                        .addOption('path', 'Path')
+                        .addOption('tag', 'Tag')
+                        .addOption('property', 'Property')
+                        .setValue(rule.type)
+                        .onChange(async (value) => {
+                            rule.type = value as LinkerRule['type'];
+                            await this.plugin.updateSettings();
+                        })
+                )
+                .addText((text) =>
+                    text
+                        .setPlaceholder(rule.type === 'path' ? 'Archive/**' : rule.type === 'tag' ? 'draft' : 'status: draft')
+                        .setValue(rule.pattern)
+                        .onChange(async (value) => {
+                            rule.pattern = value;
+                            await this.plugin.updateSettings();
+                        })
+                )
+                .addDropdown((dropdown) =>
+                    dropdown
+                        .addOption('exclude', 'Exclude')
+                        .addOption('include', 'Include')
+                        .setValue(rule.include ? 'include' : 'exclude')
+                        .onChange(async (value) => {
+                            rule.include = value === 'include';
+                            await this.plugin.updateSettings();
+                        })
+                )
+                .addDropdown((dropdown) =>
+                    dropdown
+                        .addOption('both', 'Targets and sources')
+                        .addOption('target', 'Link targets')
+                        .addOption('source', 'Link sources')
+                        .setValue(rule.scope)
+                        .onChange(async (value) => {
+                            rule.scope = value as LinkerRule['scope'];
+                            await this.plugin.updateSettings();
+                        })
+                )
+                .addExtraButton((button) =>
+                    button
+                        .setIcon('arrow-up')
+                        .setTooltip('Move up')
+                        .setDisabled(index === 0)
+                        .onClick(async () => {
+                            if (index > 0) {
+                                [rules[index - 1], rules[index]] = [rules[index], rules[index - 1]];
+                                await this.plugin.updateSettings();
+                                this.display();
+                            }
+                        })
+                )
+                .addExtraButton((button) =>
+                    button
+                        .setIcon('arrow-down')
+                        .setTooltip('Move down')
+                        .setDisabled(index === rules.length - 1)
+                        .onClick(async () => {
+                            if (index < rules.length - 1) {
+                                [rules[index + 1], rules[index]] = [rules[index], rules[index + 1]];
+                                await this.plugin.updateSettings();
+                                this.display();
+                            }
+                        })
+                )
+                .addExtraButton((button) =>
+                    button
+                        .setIcon('trash')
+                        .setTooltip('Delete')
+                        .onClick(async () => {
+                            await this.plugin.updateSettings({ rules: rules.filter((r) => r !== rule) });
+                            this.display();
+                        })
+                );
+        });
+
+        new Setting(containerEl).addButton((button) =>
+            button.setButtonText('Add rule').onClick(async () => {
+                await this.plugin.updateSettings({ rules: [...rules, { type: 'path', pattern: '', include: false, scope: 'both' }] });
+                this.display();
+            })
+        );
+
+        // Shows which rules apply to a note, e.g. to find out why a note is not linked
+        const ruleTesterSetting = new Setting(containerEl)
+            .setName('Rule tester')
+            .setDesc('Enter the path of a note to see which rules decide if it is a link target and a link source.');
+        const ruleTesterResult = ruleTesterSetting.descEl.createDiv({ cls: 'linker-rule-tester' });
+        ruleTesterSetting.addText((text) =>
+            text.setPlaceholder('e.g. Projects/Note.md').onChange((value) => {
+                ruleTesterResult.empty();
+                if (value.trim().length === 0) {
+                    return;
+                }
+                const path = normalizePath(value.trim());
+                const file = this.app.vault.getAbstractFileByPath(path) ?? this.app.vault.getAbstractFileByPath(`${path}.md`);
+                if (!(file instanceof TFile)) {
+                    ruleTesterResult.createDiv({ text: 'No note found at this path.', cls: 'linker-settings-error' });
+                    return;
+                }
+
+                const metaInfo = new LinkerMetaInfoFetcher(this.app, this.plugin.settings).getMetaInfo(file);
+                ruleTesterResult.createDiv({
+                    text: `Link target: ${metaInfo.isLinkTarget ? 'yes' : 'no'} (${metaInfo.targetDecision.reason})`,
+                });
+                ruleTesterResult.createDiv({
+                    text: `Link source: ${metaInfo.isLinkSource ? 'yes' : 'no'} (${metaInfo.sourceDecision.reason})`,
+                });
+            })
+        );
+
+        new Setting(containerEl)
+            .setName('Profiles')
+            .setDesc(
+                'Profiles override some settings for the notes in the given folders or with the given tags, e.g. to match any part of words in a folder with Chinese notes. The first profile assigned to a note is applied.'
+            )
+            .setHeading();
+
+        const profiles = this.plugin.settings.profiles;
+        profiles.forEach((profile, index) => {
+            new Setting(containerEl)
+                .setName(`Profile ${index + 1}`)
+                .addText((text) =>
+                    text
+                        .setPlaceholder('Name')
+                        .setValue(profile.name)
+                        .onChange(async (value) => {
+                            profile.name = value;
+                            await this.plugin.updateSettings();
+                        })
+                )
+                .addExtraButton((button) =>
+                    button
+                        .setIcon('trash')
+                        .setTooltip('Delete')
+                        .onClick(async () => {
+                            await this.plugin.updateSettings({ profiles: profiles.filter((p) => p !== profile) });
+                            this.display();
+                        })
+                );
+
+            new Setting(containerEl)
+                .setName('Folders')
+                .setDesc('Folders of the notes (separated by new lines), globs like "**/Snippets" are supported.')
+                .addTextArea((text) => {
+                    text.setPlaceholder('List of folders (separated by new line)')
+                        .setValue(profile.folders.join('\n'))
+                        .onChange(async (value) => {
+                            profile.folders = value
+                                .split('\n')
+                                .map((x) => x.trim())
+                                .filter((x) => x.length > 0);
+                            await this.plugin.updateSettings();
+                        });
+
+                    // Set default size
+                    text.inputEl.addClass('linker-settings-text-box');
+                });
+
+            new Setting(containerEl)
+                .setName('Tags')
+                .setDesc('Tags of the notes (separated by commas).')
+                .addText((text) =>
+                    text.setValue(profile.tags.join(', ')).onChange(async (value) => {
+                        profile.tags = value
+                            .split(',')
+                            .map((x) => x.trim())
+                            .filter((x) => x.length > 0);
+                        await this.plugin.updateSettings();
+                    })
+                );
+
+            // The settings that are not overridden keep the value of the settings above
+            const overridesEl = containerEl.createEl('details', { cls: 'linker-settings-profile' });
+            overridesEl.createEl('summary', { text: `Overridden settings (${Object.keys(profile.overrides).length})` });
+            for (const { key, name, type } of profileSettings) {
+                const setting = new Setting(overridesEl).setName(name);
+                const setOverride = async (value: string | boolean | undefined) => {
+                    if (value === undefined) {
+                        delete profile.overrides[key];
+                    } else {
+                        Object.assign(profile.overrides, { [key]: value });
+                    }
+                    await this.plugin.updateSettings();
+                };
+
+                if (type === 'toggle') {
+                    setting.addDropdown((dropdown) =>
+                        dropdown
+                            .addOption('default', 'Default')
+                            .addOption('on', 'On')
+                            .addOption('off', 'Off')
+                            .setValue(profile.overrides[key] === undefined ? 'default' : profile.overrides[key] ? 'on' : 'off')
+                            .onChange(async (value) => {
+                                await setOverride(value === 'default' ? undefined : value === 'on');
+                            })
+                    );
+                } else {
+                    setting.addText((text) =>
+                        text
+                            .setPlaceholder('Default')
+                            .setValue((profile.overrides[key] as string | undefined) ?? '')
+                            .onChange(async (value) => {
+                                await setOverride(value.length > 0 ? value : undefined);
+                            })
+                    );
+                }
+            }
+        });
+
+        new Setting(containerEl).addButton((button) =>
+            button.setButtonText('Add profile').onClick(async () => {
+                await this.plugin.updateSettings({ profiles: [...profiles, { name: '', folders: [], tags: [], overrides: {} }] });
+                this.display();
+            })
+        );
+
+        new Setting(containerEl).setName('Notes with the same name').setHeading();
+
+        // Number input settings for the weights of the ranking strategies
+        for (const strategy of rankingStrategies) {
+            new Setting(containerEl)
+                .setName(`Weight of "${strategy.displayName}"`)
+                .setDesc(
+                    `${strategy.description} If several notes match the same text, the note with the highest weighted ranking is linked first. A weight of 0 disables the strategy.`
+                )
+                .addText((text) =>
+                    text.setValue((this.plugin.settings.rankingWeights[strategy.id] ?? 0).toString()).onChange(async (value) => {
+                        const weight = parseFloat(value);
+                        const rankingWeights = { ...this.plugin.settings.rankingWeights, [strategy.id]: isNaN(weight) || weight < 0 ? 0 : weight };
+                        await this.plugin.updateSettings({ rankingWeights });
+                    })
+                );
+        }
+
+        if (this.plugin.settings.advancedSettings) {
+            // Text setting for property name of the priority
+            new Setting(containerEl)
+                .setName('Property name for the priority')
+                .setDesc('By adding this property to a note, containing a number (e.g. "linker-priority: 10"), the note is preferred over notes with a lower priority.')
+                .addText((text) =>
+                    text.setValue(this.plugin.settings.propertyNameToPriority).onChange(async (value) => {
+                        await this.plugin.updateSettings({ propertyNameToPriority: value });
+                    })
+                );
+        }
+
         new Setting(containerEl).setName('Link style').setHeading();
 
         new Setting(containerEl)
@@ -940,6 +1723,29 @@ class LinkerSettingTab extends PluginSettingTab {
                 })
             );
 
+        new Setting(containerEl)
+            .setName('Show definition tooltips')
+            .setDesc(
+                'If toggled, hovering a virtual link shows a small card with the title, the aliases and the definition of the linked note. The page preview is shown instead, if Ctrl (Cmd on macOS) is pressed.'
+            )
+            .addToggle((toggle) =>
+                toggle.setValue(this.plugin.settings.showDefinitionTooltips).onChange(async (value) => {
+                    await this.plugin.updateSettings({ showDefinitionTooltips: value });
+                    this.display();
+                })
+            );
+
+        if (this.plugin.settings.showDefinitionTooltips) {
+            new Setting(containerEl)
+                .setName('Property name of the definition')
+                .setDesc('The value of this frontmatter property is shown as the definition of a note. Without the property, the first paragraph of the note is shown.')
+                .addText((text) =>
+                    text.setValue(this.plugin.settings.propertyNameToDefinition).onChange(async (value) => {
+                        await this.plugin.updateSettings({ propertyNameToDefinition: value.trim() });
+                    })
+                );
+        }
+
         new Setting(containerEl)
             .setName('Virtual link suffix')
             .setDesc('The suffix to add to auto generated virtual links.')
@@ -958,6 +1764,15 @@ class LinkerSettingTab extends PluginSettingTab {
                     await this.plugin.updateSettings({ virtualLinkAliasSuffix: value });
                 })
             );
+        new Setting(containerEl)
+            .setName('Virtual link suffix for acronyms')
+            .setDesc('The suffix to add to auto generated virtual links for generated acronyms.')
+            .addText((text) =>
+                text.setValue(this.plugin.settings.virtualLinkAcronymSuffix).onChange(async (value) => {
+                    // console.log("New acronym suffix: " + value);
+                    await this.plugin.updateSettings({ virtualLinkAcronymSuffix: value });
+                })
+            );
 
         // Toggle setting to apply default link styling
         new Setting(containerEl)
@@ -1027,36 +1842,23 @@ class LinkerSettingTab extends PluginSettingTab {
     }
 }
 
-export function convertToRealLink(targetElement: HTMLElement, targetFile: TAbstractFile, app: App, settings: LinkerPluginSettings) {
-
-    // Get from and to position from the element
-    const from = parseInt(targetElement.getAttribute('from') || '-1');
-    const to = parseInt(targetElement.getAttribute('to') || '-1');
-
-    if (from === -1 || to === -1) {
-        console.error('No from or to position');
-        return;
-    }
-
-    // Get the shown text
-    const text = targetElement.getAttribute('origin-text') || '';;
-    const activeFile = app.workspace.getActiveFile();
-    const activeFilePath = activeFile?.path ?? '';
-
-    if (!activeFile) {
-        console.error('No active file');
-        return;
-    }
+/**
+ * Returns the real link to a file (or a section of it) with the shown text, in the link style of the settings.
+ * Relative paths are relative to the source note, which contains the link.
+ */
+export function getRealLink(targetFile: TFile, text: string, subpath: string, sourcePath: string, app: App, settings: LinkerPluginSettings): string {
+    // Matches can span line breaks and runs of spaces (see the separators), but the shown text of a link has to be on one line
+    text = text.replace(/\s+/g, ' ');
 
     let absolutePath = targetFile.path;
-    let relativePath = path.relative(path.dirname(activeFile.path), path.dirname(absolutePath)) +
+    let relativePath = path.relative(path.dirname(sourcePath), path.dirname(absolutePath)) +
         '/' +
         path.basename(absolutePath);
     relativePath = relativePath.replace(/\\/g, '/'); // Replace backslashes with forward slashes
 
 
     // Problem: we cannot just take the fileToLinktext result, as it depends on the app settings
-    const replacementPath = app.metadataCache.fileToLinktext(targetFile as TFile, activeFilePath);
+    const replacementPath = app.metadataCache.fileToLinktext(targetFile, sourcePath);
 
     // The last part of the replacement path is the real shortest file name
     // We have to check, if it leads to the correct file
@@ -1099,39 +1901,79 @@ export function convertToRealLink(targetElement: HTMLElement, targetFile: TAbstr
     let replacement = '';
 
     // If the file is the same as the shown text, and we can use short links, we use them
-    if (replacementPath === text && linkFormat === 'shortest') {
+    if (replacementPath === text && linkFormat === 'shortest' && subpath.length === 0) {
         replacement = `[[${replacementPath}]]`;
     }
 
     // Otherwise create a specific link, using the shown text
     else {
         if (linkFormat === 'shortest') {
-            replacement = createLink(shortestPath, text, useMarkdownLinks);
+            replacement = createLink(shortestPath + subpath, text, useMarkdownLinks);
         } else if (linkFormat === 'relative') {
-            replacement = createLink(relativePath, text, useMarkdownLinks);
+            replacement = createLink(relativePath + subpath, text, useMarkdownLinks);
         } else if (linkFormat === 'absolute') {
-            replacement = createLink(absolutePath, text, useMarkdownLinks);
+            replacement = createLink(absolutePath + subpath, text, useMarkdownLinks);
         }
     }
 
-    // Replace the text
-    const activeView = app.workspace.getActiveViewOfType(MarkdownView);
-    if (!activeView)
+    return replacement;
+}
+
+export function convertToRealLink(targetElement: HTMLElement, targetFile: TAbstractFile, app: App, settings: LinkerPluginSettings) {
+
+    // Get from and to position from the element
+    const from = parseInt(targetElement.getAttribute('from') || '-1');
+    const to = parseInt(targetElement.getAttribute('to') || '-1');
+
+    if (from === -1 || to === -1) {
+        console.error('No from or to position');
+        return;
+    }
+
+    // Get the shown text and the linked section of the file (e.g. "#Gradient Descent")
+    const text = targetElement.getAttribute('origin-text') || '';;
+    const subpath = targetElement.getAttribute('subpath') ?? '';
+
+    // The link is converted in the editor containing it, which is not necessarily the active editor (e.g. in a hover popover or an embed)
+    const editorElement = targetElement.closest('.cm-editor');
+    const editorView = editorElement instanceof HTMLElement ? EditorView.findFromDOM(editorElement) : null;
+
+    // Links in the text cards of a canvas are relative to the canvas file
+    const canvasFile = targetElement.closest('.canvas-node') ? getCanvasFileOfElement(app, targetElement) : null;
+    const sourceFile = editorView ? getFileForEditorView(app, editorView) : canvasFile;
+
+    if (!sourceFile) {
+        console.error('No source file');
+        return;
+    }
+
+    const replacement = getRealLink(targetFile as TFile, text, subpath, sourceFile.path, app, settings);
+
+    if (editorView) {
+        editorView.dispatch({ changes: { from, to, insert: replacement } });
         return;
-    const editor = activeView.editor;
-    const fromEditorPos = editor.offsetToPos(from);
-    const toEditorPos = editor.offsetToPos(to);
+    }
 
-    if (!fromEditorPos || !toEditorPos) {
-        console.warn('No editor positions');
+    // Text cards of a canvas, that are not edited, are changed in the canvas file
+    if (canvasFile) {
+        const card = getCanvasCardOfElement(app, targetElement);
+        if (!card) {
+            console.error('No canvas card');
+            return;
+        }
+        replaceInCanvasCard(app, card, targetElement, targetFile.path + subpath, replacement, settings)
+            .then((replaced) => {
+                if (!replaced) {
+                    new Notice(`[Virtual Linker] "${text}" was not found in the text of the card.`);
+                }
+            })
+            .catch((e) => {
+                console.error('[VL] Error converting the virtual link in the canvas', e);
+                new Notice('[Virtual Linker] The virtual link could not be converted in the canvas.');
+            });
         return;
     }
-    //remember scroll position
-    const scrollPos = editor.getScrollInfo();
-    editor.replaceRange(replacement, fromEditorPos, toEditorPos);
-    // activeView.onload = () => {
-    //     editor.scrollTo(scrollPos.left, scrollPos.top);
-    // };
-    setTimeout(() => editor.scrollTo(scrollPos.left, scrollPos.top), 100);
 
+    // The positions of links in the reading view are not the positions in the note
+    new Notice('[Virtual Linker] Virtual links can only be converted in the editor.');
 };
\ No newline at end of file